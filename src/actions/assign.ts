@@ -7,17 +7,32 @@ import type {
   ActionFunction,
   EventObject,
 } from "../core/types.ts";
+import { markBuiltinAction } from "../core/transition.ts";
 
 /**
  * Assigner function type - can return partial context or updater function
+ *
+ * Updater functions receive the params of a named action as their second
+ * argument.
  */
-export type Assigner<TContext, TEvent extends EventObject> =
+export type Assigner<
+  TContext,
+  TEvent extends EventObject,
+  // deno-lint-ignore no-explicit-any
+  TParams = any,
+> =
   | Partial<TContext>
-  | ((args: ActionContext<TContext, TEvent>) => Partial<TContext>)
+  | ((
+    args: ActionContext<TContext, TEvent>,
+    params: TParams,
+  ) => Partial<TContext>)
   | {
     [K in keyof TContext]?:
       | TContext[K]
-      | ((args: ActionContext<TContext, TEvent>) => TContext[K]);
+      | ((
+        args: ActionContext<TContext, TEvent>,
+        params: TParams,
+      ) => TContext[K]);
   };
 
 /**
@@ -30,15 +45,23 @@ export type Assigner<TContext, TEvent extends EventObject> =
  * assign(({ context }) => ({ count: context.count + 1 }))
  * ```
  */
-export function assign<TContext extends object, TEvent extends EventObject>(
-  assigner: Assigner<TContext, TEvent>,
-): ActionFunction<TContext, TEvent> {
-  return (args: ActionContext<TContext, TEvent>) => {
+export function assign<
+  TContext extends object,
+  TEvent extends EventObject,
+  // deno-lint-ignore no-explicit-any
+  TParams = any,
+>(
+  assigner: Assigner<TContext, TEvent, TParams>,
+): ActionFunction<TContext, TEvent, TParams> {
+  const action: ActionFunction<TContext, TEvent, TParams> = (
+    args: ActionContext<TContext, TEvent>,
+    params,
+  ) => {
     let updates: Partial<TContext>;
 
     // If assigner is a function, call it to get updates
     if (typeof assigner === "function") {
-      updates = assigner(args);
+      updates = assigner(args, params);
     } else if (typeof assigner === "object") {
       // If assigner is an object, resolve each property
       updates = {} as Partial<TContext>;
@@ -46,7 +69,7 @@ export function assign<TContext extends object, TEvent extends EventObject>(
         const value = assigner[key];
         if (typeof value === "function") {
           // @ts-ignore - TypeScript has trouble with this pattern
-          updates[key] = value(args);
+          updates[key] = value(args, params);
         } else {
           // @ts-ignore - TypeScript has trouble with this pattern
           updates[key] = value;
@@ -60,4 +83,5 @@ export function assign<TContext extends object, TEvent extends EventObject>(
     // The context object is already a copy in the actor
     Object.assign(args.context as object, updates);
   };
+  return markBuiltinAction(action);
 }
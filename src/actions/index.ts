@@ -5,7 +5,15 @@
 export { assign } from "./assign.ts";
 export type { Assigner } from "./assign.ts";
 
-import type { ActionFunction, EventObject } from "../core/types.ts";
+import type {
+  ActionDefinition,
+  ActionFunction,
+  EventObject,
+  GuardDefinition,
+} from "../core/types.ts";
+import { markBuiltinAction } from "../core/transition.ts";
+import { assign, type Assigner } from "./assign.ts";
+import { sendParent, sendTo, type SendToOptions } from "./spawn.ts";
 
 /**
  * Create a log action
@@ -25,23 +33,179 @@ export function log<TContext, TEvent extends EventObject>(
   };
 }
 
+/**
+ * Options for raise
+ */
+export interface RaiseOptions<TContext, TEvent extends EventObject> {
+  /** Delay in milliseconds, a named delay, or a function computing it */
+  delay?:
+    | number
+    | string
+    | ((args: { context: TContext; event: TEvent }) => number);
+  /** ID of the delayed event, used to replace a pending event with the same ID */
+  id?: string;
+}
+
 /**
  * Create a raise action to send an event to self
- * Note: This is a simplified version that doesn't actually raise events
- * in the current implementation. For full compatibility, this would need
- * to be integrated with the actor's event queue.
+ *
+ * Raised events are placed on the actor's internal queue and processed after
+ * the current microstep, before any externally sent event. With a `delay`
+ * option the event is scheduled on a timer owned by the actor instead.
  *
  * @example
  * ```ts
  * raise({ type: 'NEXT' })
+ * raise({ type: 'TIMEOUT' }, { delay: 1000, id: 'timeout' })
  * ```
  */
 export function raise<TContext, TEvent extends EventObject>(
   event: TEvent | ((args: { context: TContext; event: TEvent }) => TEvent),
+  options: RaiseOptions<TContext, TEvent> = {},
 ): ActionFunction<TContext, TEvent> {
-  return (args) => {
+  const action: ActionFunction<TContext, TEvent> = (args) => {
     const eventToRaise = typeof event === "function" ? event(args) : event;
-    console.warn("raise() is not fully implemented yet. Event:", eventToRaise);
-    // TODO: Implement event queue and raise mechanism
+    const delay = typeof options.delay === "function"
+      ? options.delay(args)
+      : options.delay;
+
+    // This is a marker action that will be intercepted by the actor
+    return {
+      type: "$$raise",
+      event: eventToRaise,
+      delay,
+      id: options.id,
+    };
+  };
+  return markBuiltinAction(action);
+}
+
+/**
+ * Create a cancel action for a delayed event scheduled with an `id`
+ *
+ * Works for both delayed `raise` and delayed `sendTo` events. Cancelling an
+ * event that already fired or was never scheduled does nothing.
+ *
+ * @example
+ * ```ts
+ * cancel('timeout')
+ * ```
+ */
+export function cancel<TContext, TEvent extends EventObject>(
+  id: string,
+): ActionFunction<TContext, TEvent> {
+  // This is a marker action that will be intercepted by the actor
+  return markBuiltinAction(() => ({ type: "$$cancel", id }));
+}
+
+/**
+ * Enqueue function passed to `enqueueActions`, with helpers for built-in
+ * actions
+ */
+export interface ActionEnqueuer<TContext, TEvent extends EventObject> {
+  /** Enqueue an action function or a named action (`{ type, params }`) */
+  (action: ActionDefinition<TContext, TEvent>): void;
+  assign: (assigner: Assigner<TContext, TEvent>) => void;
+  raise: (
+    event: Parameters<typeof raise<TContext, TEvent>>[0],
+    options?: RaiseOptions<TContext, TEvent>,
+  ) => void;
+  sendTo: <TSent extends EventObject>(
+    to: Parameters<typeof sendTo<TSent>>[0],
+    event: Parameters<typeof sendTo<TSent>>[1],
+    options?: SendToOptions,
+  ) => void;
+  sendParent: <TSent extends EventObject>(
+    event: Parameters<typeof sendParent<TSent>>[0],
+  ) => void;
+  cancel: (id: string) => void;
+}
+
+/**
+ * Arguments passed to the `enqueueActions` callback
+ */
+export interface EnqueueActionsArgs<TContext, TEvent extends EventObject> {
+  context: TContext;
+  event: TEvent;
+  /** Enqueue an action to run after the callback returns */
+  enqueue: ActionEnqueuer<TContext, TEvent>;
+  /** Evaluate a guard (function or named guard) against the current state */
+  check: (guard: GuardDefinition<TContext, TEvent>) => boolean;
+}
+
+/**
+ * Create an action that decides at runtime which actions to run
+ *
+ * The callback enqueues actions instead of running them. Once it returns, the
+ * queued actions run in order, so effects such as `sendTo` or `raise` go
+ * through the same path as statically declared actions.
+ *
+ * @example
+ * ```ts
+ * enqueueActions(({ context, enqueue, check }) => {
+ *   enqueue.assign({ count: context.count + 1 });
+ *   if (check('isFull')) {
+ *     enqueue.raise({ type: 'FULL' });
+ *   }
+ *   enqueue({ type: 'track', params: { event: 'increment' } });
+ * })
+ * ```
+ */
+export function enqueueActions<TContext, TEvent extends EventObject>(
+  callback: (
+    args: EnqueueActionsArgs<TContext, TEvent>,
+    // deno-lint-ignore no-explicit-any
+    params: any,
+  ) => void,
+): ActionFunction<TContext, TEvent> {
+  const action: ActionFunction<TContext, TEvent> = (
+    { context, event },
+    params,
+  ) => {
+    // This is a marker action; executeActions collects and runs the queue
+    return {
+      type: "$$enqueueActions",
+      collect: (
+        check: (guard: GuardDefinition<TContext, TEvent>) => boolean,
+      ) => {
+        const actions: ActionDefinition<TContext, TEvent>[] = [];
+        const enqueue = Object.assign(
+          (action: ActionDefinition<TContext, TEvent>) => {
+            actions.push(action);
+          },
+          {
+            assign: (assigner: Assigner<TContext, TEvent>) => {
+              // deno-lint-ignore no-explicit-any
+              actions.push(assign(assigner as Assigner<any, TEvent>));
+            },
+            raise: (
+              eventToRaise: Parameters<typeof raise<TContext, TEvent>>[0],
+              options?: RaiseOptions<TContext, TEvent>,
+            ) => {
+              actions.push(raise(eventToRaise, options));
+            },
+            sendTo: <TSent extends EventObject>(
+              to: Parameters<typeof sendTo<TSent>>[0],
+              eventToSend: Parameters<typeof sendTo<TSent>>[1],
+              options?: SendToOptions,
+            ) => {
+              actions.push(sendTo(to, eventToSend, options));
+            },
+            sendParent: <TSent extends EventObject>(
+              eventToSend: Parameters<typeof sendParent<TSent>>[0],
+            ) => {
+              actions.push(sendParent(eventToSend));
+            },
+            cancel: (id: string) => {
+              actions.push(cancel(id));
+            },
+          },
+        );
+
+        callback({ context, event, enqueue, check }, params);
+        return actions;
+      },
+    };
   };
+  return markBuiltinAction(action);
 }
@@ -3,25 +3,33 @@
  */
 
 import { getServices } from "../core/services.ts";
+import { markBuiltinAction } from "../core/transition.ts";
 import type {
   ActionContext,
   ActorLogic,
+  ActorLogicMap,
   EventObject,
   Machine,
+  PersistedSnapshot,
   StateSnapshot,
   Subscription,
+  SystemActorRef,
 } from "../core/types.ts";
-import { createActor } from "../core/actor.ts";
-import { createInvokedActor } from "../actors/invoke.ts";
+import { type ChildActorOptions, createActor } from "../core/actor.ts";
+import { createInvokedActor, resolveActorLogic } from "../actors/invoke.ts";
 
 /**
  * Spawned actor reference
  */
 export interface SpawnedActorRef<TEvent extends EventObject = EventObject> {
   id: string;
+  systemId?: string;
+  /** Key of the spawned logic in the machine's `actors` implementations */
+  src?: string;
   send: (event: TEvent) => void;
   stop: () => void;
   getSnapshot: () => StateSnapshot<unknown>;
+  getPersistedSnapshot?: () => PersistedSnapshot;
   subscribe?: (
     observer: (state: StateSnapshot<unknown>) => void,
   ) => Subscription;
@@ -32,8 +40,12 @@ export interface SpawnedActorRef<TEvent extends EventObject = EventObject> {
  */
 export interface SpawnOptions {
   id?: string;
+  /** ID under which the actor is registered in the actor system */
+  systemId?: string;
   input?: unknown;
   syncSnapshot?: boolean;
+  /** Persisted snapshot to restore a spawned machine actor from */
+  snapshot?: PersistedSnapshot;
 }
 
 /**
@@ -41,7 +53,7 @@ export interface SpawnOptions {
  */
 export interface SpawnContext {
   spawn: <TLogic extends ActorLogic<unknown, unknown, EventObject>>(
-    logic: TLogic,
+    logic: TLogic | string,
     options?: SpawnOptions,
   ) => SpawnedActorRef;
   spawnedActors: Map<string, SpawnedActorRef>;
@@ -53,26 +65,37 @@ export interface SpawnContext {
 export interface SpawnableActionContext<TContext, TEvent extends EventObject>
   extends ActionContext<TContext, TEvent> {
   spawn: <TLogic extends ActorLogic<unknown, unknown, EventObject>>(
-    logic: TLogic,
+    logic: TLogic | string,
     options?: SpawnOptions,
   ) => SpawnedActorRef;
 }
 
 /**
  * Create a spawn function for an actor
+ *
+ * String sources are looked up in the `actors` implementations. Spawned logic
+ * found there is recorded by key, so persisted actors can spawn it again when
+ * they are restored.
  */
 export function createSpawnFunction(
   spawnedActors: Map<string, SpawnedActorRef>,
-  sendParent: (event: EventObject) => void,
+  sendParent: (event: EventObject, sourceId?: string) => void,
+  actors?: ActorLogicMap,
+  childOptions: Omit<ChildActorOptions, "snapshot"> = {},
 ): SpawnContext["spawn"] {
   return function spawn<
     TLogic extends ActorLogic<unknown, unknown, EventObject>,
   >(
-    logic: TLogic,
+    source: TLogic | string,
     options: SpawnOptions = {},
   ): SpawnedActorRef {
+    const logic = resolveActorLogic(source, actors);
+    const src = typeof source === "string"
+      ? source
+      : actors && Object.keys(actors).find((key) => actors[key] === source);
+
     const actorId = options.id ||
-      getServices().generateId("spawned");
+      (childOptions.services ?? getServices()).generateId("spawned");
 
     // Check if actor with this ID already exists
     if (spawnedActors.has(actorId)) {
@@ -85,20 +108,30 @@ export function createSpawnFunction(
     if (isMachine(logic)) {
       // Machine actor
       const machine = logic as Machine<unknown, EventObject>;
-      const actor = createActor(machine);
+      const actor = createActor(machine, {
+        ...childOptions,
+        onChildEvent: undefined,
+        stubChildren: undefined,
+        id: actorId,
+        systemId: options.systemId,
+        snapshot: options.snapshot,
+      });
       actor.start();
 
       actorRef = {
         id: actorId,
+        systemId: options.systemId,
         send: (e) => actor.send(e),
         stop: () => actor.stop(),
         getSnapshot: () => actor.getSnapshot(),
+        getPersistedSnapshot: () => actor.getPersistedSnapshot(),
         subscribe: (observer) => actor.subscribe(observer),
       };
     } else {
       // Use invoke actor creation for promise/callback logic
       const invokeConfig = {
         id: actorId,
+        systemId: options.systemId,
         src: logic,
         // deno-lint-ignore no-explicit-any
         input: options.input as any,
@@ -109,9 +142,13 @@ export function createSpawnFunction(
         {},
         { type: "$spawn" },
         sendParent,
+        undefined,
+        childOptions,
       ) as SpawnedActorRef;
     }
 
+    actorRef.src = src;
+
     // Register the spawned actor
     spawnedActors.set(actorId, actorRef);
 
@@ -149,13 +186,48 @@ export function stopAllSpawnedActors(
 }
 
 /**
- * Create sendTo action for sending events to spawned actors
+ * Options for sendTo
+ */
+export interface SendToOptions {
+  /** Delay in milliseconds, a named delay, or a function computing it */
+  delay?:
+    | number
+    | string
+    | ((args: { context: unknown; event: unknown }) => number);
+  /** ID of the delayed event, used to cancel it or replace a pending one */
+  id?: string;
+}
+
+/**
+ * Create sendTo action for sending events to another actor
+ *
+ * The actor is given as an actor ref, or by ID: the ID of a spawned or
+ * invoked child, or a system ID registered in the actor system. It can also
+ * be computed from the context and event, e.g. to use a ref kept in context.
+ *
+ * With a `delay` option the event is scheduled on a timer owned by the
+ * sending actor. The timer outlives state exits and can be cancelled with
+ * `cancel(id)`; it is cleared when the sending actor stops.
  */
 export function sendTo<TEvent extends EventObject>(
-  actorId: string,
+  to:
+    | string
+    | SystemActorRef
+    | ((
+      args: { context: unknown; event: unknown },
+    ) => string | SystemActorRef),
   event: TEvent | ((context: unknown, actionEvent: unknown) => TEvent),
-) {
-  return (
+  options: SendToOptions = {},
+): (
+  args: ActionContext<unknown, EventObject>,
+) => {
+  type: "$$sendTo";
+  to: string | SystemActorRef;
+  event: TEvent;
+  delay?: number | string;
+  id?: string;
+} {
+  return markBuiltinAction((
     { context, event: actionEvent }: ActionContext<unknown, EventObject>,
   ) => {
     // This will be handled by the actor system
@@ -163,14 +235,19 @@ export function sendTo<TEvent extends EventObject>(
     const resolvedEvent = typeof event === "function"
       ? event(context, actionEvent)
       : event;
+    const delay = typeof options.delay === "function"
+      ? options.delay({ context, event: actionEvent })
+      : options.delay;
 
     // This is a marker action that will be intercepted
     return {
       type: "$$sendTo",
-      actorId,
+      to: typeof to === "function" ? to({ context, event: actionEvent }) : to,
       event: resolvedEvent,
+      delay,
+      id: options.id,
     };
-  };
+  });
 }
 
 /**
@@ -178,8 +255,10 @@ export function sendTo<TEvent extends EventObject>(
  */
 export function sendParent<TEvent extends EventObject>(
   event: TEvent | ((context: unknown, actionEvent: unknown) => TEvent),
-) {
-  return (
+): (
+  args: ActionContext<unknown, EventObject>,
+) => { type: "$$sendParent"; event: TEvent } {
+  return markBuiltinAction((
     { context, event: actionEvent }: ActionContext<unknown, EventObject>,
   ) => {
     const resolvedEvent = typeof event === "function"
@@ -190,5 +269,5 @@ export function sendParent<TEvent extends EventObject>(
       type: "$$sendParent",
       event: resolvedEvent,
     };
-  };
+  });
 }
@@ -5,24 +5,29 @@
 import { getServices } from "../core/services.ts";
 import type {
   ActorLogic,
+  ActorLogicMap,
   CallbackLogic,
   EventObject,
   InvokeConfig,
   Machine,
+  PersistedSnapshot,
   PromiseLogic,
   StateSnapshot,
   Subscription,
 } from "../core/types.ts";
-import { createActor } from "../core/actor.ts";
+import { type ChildActorOptions, createActor } from "../core/actor.ts";
+import { createStateSnapshot } from "../core/state.ts";
 
 /**
  * Internal actor reference for invoked actors
  */
 interface InvokedActorRef<TEvent extends EventObject = EventObject> {
   id: string;
+  systemId?: string;
   send: (event: TEvent) => void;
   stop: () => void;
   getSnapshot: () => StateSnapshot<unknown>;
+  getPersistedSnapshot?: () => PersistedSnapshot;
   subscribe?: (
     observer: (state: StateSnapshot<unknown>) => void,
   ) => Subscription;
@@ -30,20 +35,32 @@ interface InvokedActorRef<TEvent extends EventObject = EventObject> {
 
 /**
  * Create an invoked actor from logic
+ *
+ * Machine actors given a persisted snapshot are restored from it. Promise
+ * and callback actors have no persisted state and always start afresh.
+ *
+ * Machine actors register themselves in the actor system; promise and
+ * callback actors are registered here under `options.parent`. With
+ * `options.stubChildren`, promise and callback actors are replaced by
+ * stand-ins that never run.
  */
 export function createInvokedActor<TContext, TEvent extends EventObject>(
   config: InvokeConfig<TContext, TEvent>,
   context: TContext,
   event: TEvent,
-  sendParent: (event: EventObject) => void,
+  sendParent: (event: EventObject, sourceId?: string) => void,
+  actors?: ActorLogicMap,
+  options: ChildActorOptions = {},
 ): InvokedActorRef {
-  const { src, input, id, onDone, onError } = config;
+  const { input, id, onDone, onError } = config;
+  const src = resolveActorLogic(config.src, actors);
   const _src = src;
   const _input = input;
   const _id = id;
   const _onDone = onDone;
 
-  const actorId = id || getServices().generateId("invoked");
+  const actorId = id ||
+    (options.services ?? getServices()).generateId("invoked");
 
   // Resolve input
   let resolvedInput: unknown;
@@ -54,39 +71,61 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
     resolvedInput = input;
   }
 
+  // Events from promise and callback actors are reported as they are sent
+  const sendToParent = (e: EventObject) => {
+    options.onChildEvent?.(e, actorId);
+    sendParent(e, actorId);
+  };
+
   // Handle different actor logic types
   if (isMachine(src)) {
     // Machine actor
     // deno-lint-ignore no-explicit-any
     const machine = src as Machine<any, any>;
-    const actor = createActor(machine, { sendParent });
-
-    // Subscribe to completion if onDone is specified
-    // Note: This part is incomplete as ustate doesn't fully support
-    // final states for invoked machines yet in a way that triggers onDone
-    // properly. However, for compatibility, we acknowledge onDone exists.
+    // The child reports done.invoke/error.invoke events under this ID. Events
+    // from its own children are not this actor's to observe, nor to stub.
+    const actor = createActor(machine, {
+      ...options,
+      onChildEvent: undefined,
+      stubChildren: undefined,
+      id: actorId,
+      systemId: config.systemId,
+      sendParent,
+    });
 
-    actor.start();
+    try {
+      actor.start();
+    } catch (error) {
+      sendParent({
+        type: `error.invoke.${actorId}`,
+        error,
+      }, actorId);
+    }
 
     return {
       id: actorId,
+      systemId: config.systemId,
       send: (e) => actor.send(e),
       stop: () => actor.stop(),
       getSnapshot: () => actor.getSnapshot(),
+      getPersistedSnapshot: () => actor.getPersistedSnapshot(),
       subscribe: (observer) => actor.subscribe(observer),
     };
+  } else if (
+    options.stubChildren && (isPromiseLogic(src) || isCallbackLogic(src))
+  ) {
+    return createStubActor(actorId, config.systemId, options);
   } else if (isPromiseLogic(src)) {
     // Promise actor
     // deno-lint-ignore no-explicit-any
     const promiseLogic = src as PromiseLogic<any, any>;
     let stopped = false;
     // deno-lint-ignore no-explicit-any
-    let currentSnapshot: StateSnapshot<any> = {
-      value: "pending",
-      context: {},
-      matches: (v) => v === "pending",
-      can: () => false,
-    };
+    let currentSnapshot: StateSnapshot<any> = createStateSnapshot(
+      "pending",
+      {},
+      () => false,
+    );
 
     // Execute the promise
     Promise.resolve()
@@ -94,16 +133,16 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
       .then((output) => {
         if (stopped) return;
 
-        currentSnapshot = {
-          value: "done",
-          context: { output },
-          matches: (v) => v === "done",
-          can: () => false,
-        };
+        currentSnapshot = createStateSnapshot(
+          "done",
+          { output },
+          () => false,
+          { status: "done", output },
+        );
 
         // Send done event to parent
         // Use standard done event type
-        sendParent({
+        sendToParent({
           type: `done.invoke.${actorId}`,
           output,
         });
@@ -111,16 +150,16 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
       .catch((error) => {
         if (stopped) return;
 
-        currentSnapshot = {
-          value: "error",
-          context: { error },
-          matches: (v) => v === "error",
-          can: () => false,
-        };
+        currentSnapshot = createStateSnapshot(
+          "error",
+          { error },
+          () => false,
+          { status: "error", error },
+        );
 
         // Send error event to parent
         // Use standard error event type
-        sendParent({
+        sendToParent({
           type: `error.invoke.${actorId}`,
           error,
         });
@@ -143,14 +182,26 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
         }
       });
 
-    return {
+    const ref: InvokedActorRef = {
       id: actorId,
+      systemId: config.systemId,
       send: () => {}, // Promises don't receive events
       stop: () => {
         stopped = true;
+        options.system?.unregister(ref);
+        if (currentSnapshot.status === "active") {
+          currentSnapshot = createStateSnapshot(
+            "pending",
+            {},
+            () => false,
+            { status: "stopped" },
+          );
+        }
       },
       getSnapshot: () => currentSnapshot,
     };
+    options.system?.register(ref, options.parent);
+    return ref;
   } else if (isCallbackLogic(src)) {
     // Callback actor
     // deno-lint-ignore no-explicit-any
@@ -161,7 +212,7 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
 
     const sendBack = (e: EventObject) => {
       if (stopped) return;
-      sendParent(e);
+      sendToParent(e);
     };
 
     const receive = (listener: (event: EventObject) => void) => {
@@ -175,34 +226,81 @@ export function createInvokedActor<TContext, TEvent extends EventObject>(
         input: resolvedInput,
       });
     } catch (error) {
-      sendParent({
+      sendToParent({
         type: `error.invoke.${actorId}`,
         error,
       });
     }
 
-    return {
+    const ref: InvokedActorRef = {
       id: actorId,
+      systemId: config.systemId,
       send: (e) => {
         if (stopped) return;
         listeners.forEach((listener) => listener(e));
       },
       stop: () => {
         stopped = true;
+        options.system?.unregister(ref);
         if (cleanup) cleanup();
       },
-      getSnapshot: () => ({
-        value: "active",
-        context: {},
-        matches: (v) => v === "active",
-        can: () => false,
-      }),
+      getSnapshot: () =>
+        createStateSnapshot("active", {}, () => false, {
+          status: stopped ? "stopped" : "active",
+        }),
     };
+    options.system?.register(ref, options.parent);
+    return ref;
   }
 
   throw new Error(`Unsupported actor logic type`);
 }
 
+/**
+ * Create a stand-in for a promise or callback actor, which never runs and
+ * ignores the events sent to it
+ */
+function createStubActor(
+  actorId: string,
+  systemId: string | undefined,
+  options: ChildActorOptions,
+): InvokedActorRef {
+  let stopped = false;
+  const ref: InvokedActorRef = {
+    id: actorId,
+    systemId,
+    send: () => {},
+    stop: () => {
+      stopped = true;
+      options.system?.unregister(ref);
+    },
+    getSnapshot: () =>
+      createStateSnapshot("active", {}, () => false, {
+        status: stopped ? "stopped" : "active",
+      }),
+  };
+  options.system?.register(ref, options.parent);
+  return ref;
+}
+
+/**
+ * Resolve an actor source, looking up string sources in the actors registry
+ */
+export function resolveActorLogic(
+  src: ActorLogic<unknown, unknown, EventObject> | string,
+  actors?: ActorLogicMap,
+): ActorLogic<unknown, unknown, EventObject> {
+  if (typeof src !== "string") {
+    return src;
+  }
+
+  const logic = actors?.[src];
+  if (!logic) {
+    throw new Error(`Actor "${src}" not found in implementations`);
+  }
+  return logic;
+}
+
 /**
  * Type guards
  */
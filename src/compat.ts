@@ -15,10 +15,11 @@ import type {
  */
 function checkUnsupportedFeatures<TContext, TEvent extends EventObject>(
   config: MachineConfig<TContext, TEvent>,
+  implementations?: MachineImplementations<TContext, TEvent>,
 ): string[] {
   const warnings: string[] = [];
 
-  // Check for string actor sources (not supported)
+  // Check for string actor sources without a registered implementation
   function checkActorSources(
     // deno-lint-ignore no-explicit-any
     states: Record<string, any>,
@@ -32,10 +33,13 @@ function checkUnsupportedFeatures<TContext, TEvent extends EventObject>(
           ? state.invoke
           : [state.invoke];
         for (const invocation of invocations) {
-          if (typeof invocation.src === "string") {
+          if (
+            typeof invocation.src === "string" &&
+            !implementations?.actors?.[invocation.src]
+          ) {
             warnings.push(
-              `String actor source "${invocation.src}" detected at "${statePath}". ` +
-                `Workaround: Import the actor logic directly.`,
+              `String actor source "${invocation.src}" at "${statePath}" has no implementation. ` +
+                `Workaround: Register it with setup({ actors }) or machine.provide({ actors }).`,
             );
           }
         }
@@ -47,31 +51,8 @@ function checkUnsupportedFeatures<TContext, TEvent extends EventObject>(
     }
   }
 
-  // Check for final states (not supported)
-  function checkFinalStates(
-    // deno-lint-ignore no-explicit-any
-    states: Record<string, any>,
-    path: string = "",
-  ): void {
-    for (const [key, state] of Object.entries(states)) {
-      const statePath = path ? `${path}.${key}` : key;
-
-      if (state.type === "final") {
-        warnings.push(
-          `Final state detected at "${statePath}". ` +
-            `Workaround: Use a normal state with no transitions.`,
-        );
-      }
-
-      if (state.states) {
-        checkFinalStates(state.states, statePath);
-      }
-    }
-  }
-
   if (config.states) {
     checkActorSources(config.states);
-    checkFinalStates(config.states);
   }
 
   return warnings;
@@ -84,7 +65,7 @@ export function createMachine<TContext, TEvent extends EventObject>(
   config: MachineConfig<TContext, TEvent>,
   implementations?: MachineImplementations<TContext, TEvent>,
 ): Machine<TContext, TEvent> {
-  const warnings = checkUnsupportedFeatures(config);
+  const warnings = checkUnsupportedFeatures(config, implementations);
 
   if (warnings.length > 0) {
     console.warn("⚠️  ustate compatibility warnings:");
@@ -111,14 +92,27 @@ export function getCompatibilityInfo(): {
       "Entry and exit actions",
       "Transition actions",
       "Guards (conditional transitions)",
+      "Higher-order guards (and, or, not, stateIn)",
       "setup() function",
+      "Named actions and guards with { type, params }",
+      "enqueueActions() and cancel()",
       "machine.provide() for implementation overrides",
       "State matching with state.matches()",
-      "Event capability checking with state.can()",
+      "Guard-aware event checking with state.can() and state.nextEvents",
+      "State tags and meta with state.hasTag() and state.getMeta()",
+      "String actor sources resolved through setup({ actors })",
+      'Final states (type: "final") with onDone and machine output',
+      "Persisted snapshots with getPersistedSnapshot() and restore",
+      "Actor inspection with the inspect option",
+      "Actor system with systemId and actor.system.get()",
+      "Pure initialTransition() and transition() functions",
+      "Simulated clock for after transitions and delayed events",
+      "Per-actor services with createActor(machine, { services })",
+      "Journal recording and deterministic replay",
+      "Shortest and simple test paths with getShortestPaths()/getSimplePaths()",
+      "State and transition coverage with createCoverage()",
     ],
     unsupported: [
-      'String actor sources (e.g. src: "myService")',
-      'Final states (type: "final")',
       "SCXML-specific features (datamodel, etc.)",
     ],
   };
@@ -4,25 +4,47 @@
 
 import type {
   ActorRef,
+  ActorStatus,
   EventObject,
+  ExecutedAction,
+  InspectionEvent,
   InvokeConfig,
   Machine,
   Observer,
+  PersistedChildSnapshot,
+  PersistedSnapshot,
   StateNodeConfig,
   StateSnapshot,
   StateValue,
   Subscription,
+  SystemActorRef,
 } from "./types.ts";
 import { createStateSnapshot } from "./state.ts";
 import {
-  computeTransition,
   executeActions,
+  getDoneStateEvents,
   getInitialStateValue,
   getStateNodeByPath,
   getStateNodesInPath,
+  isEventEnabled,
+  type MacrostepOptions,
+  type MacrostepState,
   resolveDelay,
+  runMacrostep,
+  settleMacrostep,
+  type TransitionResult,
 } from "./transition.ts";
 import { stateValueToPaths } from "./stateValue.ts";
+import {
+  getServices,
+  startTimer,
+  stopTimer,
+  type SystemServices,
+  type TimerHandle,
+} from "./services.ts";
+import { cloneContext } from "./clone.ts";
+import { persistActorRefs, persistError, reviveActorRefs } from "./persist.ts";
+import { type ActorSystemRegistry, createActorSystem } from "./system.ts";
 import { createInvokedActor } from "../actors/invoke.ts";
 import {
   createSpawnFunction,
@@ -30,101 +52,40 @@ import {
   stopAllSpawnedActors,
 } from "../actions/spawn.ts";
 
-/**
- * Deep clone a value, preserving functions and handling circular references
- */
-function deepClone<T>(value: T, seen = new WeakMap()): T {
-  // Primitives and functions
-  if (value === null || typeof value !== "object") {
-    return value;
-  }
-
-  // Handle circular references
-  if (seen.has(value)) {
-    return seen.get(value);
-  }
-
-  // Date
-  if (value instanceof Date) {
-    // deno-lint-ignore no-explicit-any
-    return new Date(value) as any;
-  }
-
-  // RegExp
-  if (value instanceof RegExp) {
-    // deno-lint-ignore no-explicit-any
-    return new RegExp(value) as any;
-  }
-
-  // Map
-  if (value instanceof Map) {
-    const copy = new Map();
-    seen.set(value, copy);
-    for (const [k, v] of value) {
-      copy.set(deepClone(k, seen), deepClone(v, seen));
-    }
-    // deno-lint-ignore no-explicit-any
-    return copy as any;
-  }
-
-  // Set
-  if (value instanceof Set) {
-    const copy = new Set();
-    seen.set(value, copy);
-    for (const v of value) {
-      copy.add(deepClone(v, seen));
-    }
-    // deno-lint-ignore no-explicit-any
-    return copy as any;
-  }
-
-  // Array
-  if (Array.isArray(value)) {
-    // deno-lint-ignore no-explicit-any
-    const copy: any[] = [];
-    seen.set(value, copy);
-    for (let i = 0; i < value.length; i++) {
-      copy[i] = deepClone(value[i], seen);
-    }
-    // deno-lint-ignore no-explicit-any
-    return copy as any;
-  }
-
-  // Plain Object
-  // deno-lint-ignore no-explicit-any
-  const copy = {} as any;
-  seen.set(value, copy);
-  for (const key in value) {
-    if (Object.prototype.hasOwnProperty.call(value, key)) {
-      // deno-lint-ignore no-explicit-any
-      copy[key] = deepClone((value as any)[key], seen);
-    }
-  }
-  return copy;
-}
-
-/**
- * Clone context safely
- */
-function cloneContext<T>(context: T): T {
-  try {
-    return structuredClone(context);
-  } catch (_e) {
-    return deepClone(context);
-  }
-}
-
 // Internal interface for invoked actors (matching the one in invoke.ts)
 interface InvokedActorRef {
   id: string;
+  systemId?: string;
   send: (event: EventObject) => void;
   stop: () => void;
   getSnapshot: () => StateSnapshot<unknown>;
+  getPersistedSnapshot?: () => PersistedSnapshot;
   subscribe?: (
     observer: (state: StateSnapshot<unknown>) => void,
   ) => Subscription;
 }
 
+// Pending `after` transition of an active state
+interface DelayTimer {
+  timerId: TimerHandle;
+  key: string;
+  due: number;
+}
+
+// Pending delayed event, sent to another actor when `to` is set
+interface ScheduledEvent {
+  timerId: TimerHandle;
+  event: EventObject;
+  due: number;
+  to?: string | SystemActorRef;
+}
+
+// Inspection record as built by the actor, which fills in the fields common
+// to every record type
+type InspectionRecord<TRecord = InspectionEvent> = TRecord extends unknown
+  ? Omit<TRecord, "actorId" | "parentId" | "timestamp">
+  : never;
+
 /**
  * Create an actor from a machine
  *
@@ -139,9 +100,65 @@ interface InvokedActorRef {
  * ```
  */
 export interface ActorOptions {
-  sendParent?: (event: EventObject) => void;
+  /** ID under which the parent knows this actor (used for done/error events) */
+  id?: string;
+  /** Send an event to the parent, identifying this actor as the sender */
+  sendParent?: (event: EventObject, sourceId?: string) => void;
+  /** ID of the parent actor, reported in inspection records */
+  parentId?: string;
+  /** ID under which the actor is registered in the actor system */
+  systemId?: string;
+  /** System of the parent actor; a new system is created when omitted */
+  system?: ActorSystemRegistry;
+  /**
+   * Services for IDs, time and timers, inherited by invoked and spawned
+   * actors; the global services are used when omitted
+   */
+  services?: SystemServices;
+  /** Parent actor in the system */
+  parent?: SystemActorRef;
+  /**
+   * Receive inspection records about this actor and the actors it invokes or
+   * spawns
+   */
+  inspect?: (record: InspectionEvent) => void;
+  /**
+   * Persisted snapshot to restore the actor from
+   *
+   * A restored actor starts in the persisted state without running entry
+   * actions. Its children are restored and its timers wait only for their
+   * remaining time.
+   */
+  snapshot?: PersistedSnapshot;
+  /**
+   * Receive the events that promise and callback actors invoked or spawned
+   * by this actor send to it, with the child's ID, as they arrive
+   */
+  onChildEvent?: (event: EventObject, childId: string) => void;
+  /**
+   * Stand in for the promise and callback actors this actor invokes or
+   * spawns, without running them; their events are expected to be sent to
+   * the actor instead, as when replaying a journal. Invoked and spawned
+   * machines run their own promise and callback actors.
+   */
+  stubChildren?: boolean;
 }
 
+/**
+ * Options passed on to invoked and spawned actors
+ */
+export type ChildActorOptions = Pick<
+  ActorOptions,
+  | "snapshot"
+  | "parentId"
+  | "inspect"
+  | "system"
+  | "parent"
+  | "services"
+  | "onChildEvent"
+  | "stubChildren"
+>;
+
 export function createActor<TContext, TEvent extends EventObject>(
   machine: Machine<TContext, TEvent>,
   options?: ActorOptions,
@@ -150,20 +167,62 @@ export function createActor<TContext, TEvent extends EventObject>(
   let currentContext: TContext;
   let historyValue: Record<string, StateValue> = {};
   let started = false;
+  // Becomes "done" on reaching a top-level final state, "error" on an
+  // unhandled error and "stopped" after stop()
+  let status: ActorStatus = "active";
+  let output: unknown;
+  let error: unknown;
+  // Invoked and spawned actors are known by their ID, root actors by the
+  // machine ID
+  const actorId = options?.id ?? machine.config.id ?? "(machine)";
+  const system = options?.system ?? createActorSystem();
+  const services = options?.services ?? getServices();
+  // External events waiting to be processed, one macrostep at a time, with
+  // the ID of their sender
+  const mailbox: { event: EventObject; sourceId?: string }[] = [];
+  let processing = false;
+  // Internal events (raised and done.state) processed after the current
+  // microstep, before any externally sent event
+  const internalQueue: EventObject[] = [];
   const observers: Set<Observer<TContext>> = new Set();
   // Map of path string -> invoked actors for that path
   const invokedActors: Map<string, InvokedActorRef[]> = new Map();
-  // Map of path string -> timer IDs for delayed transitions
-  const delayedTransitions: Map<string, number[]> = new Map();
+  // Map of path string -> timers for delayed transitions
+  const delayedTransitions: Map<string, DelayTimer[]> = new Map();
+  // Map of delayed event ID -> timer for delayed raises and sends
+  const scheduledEvents: Map<string, ScheduledEvent> = new Map();
   const spawnedActors: Map<string, SpawnedActorRef> = new Map();
-  const spawnFn = createSpawnFunction(
+  // Options for invoked and spawned actors, whose parent is this actor
+  const childOptions: ChildActorOptions = {
+    parentId: actorId,
+    inspect: options?.inspect,
+    system,
+    services,
+    onChildEvent: options?.onChildEvent,
+    stubChildren: options?.stubChildren,
+    get parent() {
+      return actor;
+    },
+  };
+  const spawnChild = createSpawnFunction(
     spawnedActors,
-    (e) => processEvent(e as TEvent),
+    (e, sourceId) => receive(e, sourceId),
+    machine.implementations?.actors,
+    childOptions,
   );
+  const spawnFn: typeof spawnChild = (logic, spawnOptions) => {
+    const child = spawnChild(logic, spawnOptions);
+    inspectActor(child.id, "started");
+    return child;
+  };
+  const persisted = options?.snapshot;
 
   // Initialize context
   const initialContext = machine.config.context;
-  if (typeof initialContext === "function") {
+  if (persisted) {
+    // Spawned actor references are revived once the actor starts
+    currentContext = cloneContext(persisted.context) as TContext;
+  } else if (typeof initialContext === "function") {
     currentContext = (initialContext as () => TContext)();
   } else if (initialContext !== undefined) {
     // Deep clone to avoid mutations
@@ -173,46 +232,125 @@ export function createActor<TContext, TEvent extends EventObject>(
   }
 
   // Initialize state value
-  currentState = getInitialStateValue(machine);
+  if (persisted) {
+    currentState = cloneContext(persisted.value);
+    historyValue = cloneContext(persisted.historyValue);
+    status = persisted.status;
+    output = persisted.output;
+    error = persisted.error;
+  } else {
+    currentState = getInitialStateValue(machine);
+  }
 
   /**
-   * Check if an event can be handled in the current state
+   * Get current state snapshot
+   *
+   * `can()` is evaluated against the snapshot's own state and a copy of its
+   * context, so checking guards has no side effects on the actor.
    */
-  function canHandle(event: EventObject): boolean {
-    const paths = stateValueToPaths(currentState);
-
-    // Check each active state path
-    for (const path of paths) {
-      // Check from leaf to root
-      for (let i = path.length; i > 0; i--) {
-        const currentPath = path.slice(0, i);
-        let stateNode = machine.config.states[currentPath[0]];
-
-        // Navigate to the state node
-        for (let j = 1; j < currentPath.length; j++) {
-          if (!stateNode?.states) break;
-          stateNode = stateNode.states[currentPath[j]];
-        }
+  function getSnapshot(): StateSnapshot<TContext> {
+    const value = currentState;
+    const context = currentContext;
+    const active = status === "active";
+
+    return createStateSnapshot(
+      value,
+      context,
+      (event) =>
+        active &&
+        isEventEnabled(machine, value, cloneContext(context), event as TEvent),
+      { status, output, error, historyValue },
+      machine,
+    );
+  }
 
-        if (stateNode?.on && stateNode.on[event.type as TEvent["type"]]) {
-          return true;
-        }
-      }
+  /**
+   * Get a JSON-safe snapshot of the actor and its children
+   */
+  function getPersistedSnapshot(): PersistedSnapshot<TContext> {
+    const invoked: Record<string, PersistedChildSnapshot[]> = {};
+    for (const [pathStr, actors] of invokedActors) {
+      invoked[pathStr] = actors.map(persistChild);
     }
 
-    // Check global transitions
-    if (machine.config.on && machine.config.on[event.type as TEvent["type"]]) {
-      return true;
+    const delays: PersistedSnapshot["delays"] = {};
+    for (const [pathStr, timers] of delayedTransitions) {
+      delays[pathStr] = timers.map(({ key, due }) => ({ key, due }));
     }
 
-    return false;
+    return {
+      status,
+      value: cloneContext(currentState),
+      context: cloneContext(persistActorRefs(currentContext, spawnedActors)),
+      output: cloneContext(output),
+      error: persistError(error),
+      historyValue: cloneContext(historyValue),
+      invoked,
+      spawned: Array.from(spawnedActors.values(), persistChild),
+      delays,
+      scheduled: Array.from(
+        scheduledEvents,
+        ([id, { event, due, to: target }]) => ({
+          id,
+          event: cloneContext(event),
+          due,
+          to: typeof target === "object"
+            ? target.systemId ?? target.id
+            : target,
+        }),
+      ),
+    };
+  }
+
+  function persistChild(
+    child: InvokedActorRef | SpawnedActorRef,
+  ): PersistedChildSnapshot {
+    return {
+      id: child.id,
+      systemId: child.systemId,
+      src: "src" in child ? child.src : undefined,
+      snapshot: child.getPersistedSnapshot?.(),
+    };
   }
 
   /**
-   * Get current state snapshot
+   * Emit an inspection record about this actor
    */
-  function getSnapshot(): StateSnapshot<TContext> {
-    return createStateSnapshot(currentState, currentContext, canHandle);
+  function inspect(record: InspectionRecord): void {
+    options?.inspect?.({
+      actorId,
+      parentId: options.parentId,
+      timestamp: services.now(),
+      ...record,
+    });
+  }
+
+  /**
+   * Emit an inspection record about a child actor starting or stopping
+   */
+  function inspectActor(childId: string, status: "started" | "stopped"): void {
+    options?.inspect?.({
+      type: "@ustate.actor",
+      actorId: childId,
+      parentId: actorId,
+      timestamp: services.now(),
+      status,
+    });
+  }
+
+  /**
+   * Report a root actor as stopped; children are reported by their parent
+   */
+  function inspectStopped(): void {
+    if (options?.parentId === undefined) {
+      inspect({ type: "@ustate.actor", status: "stopped" });
+    }
+  }
+
+  function inspectActions(event: EventObject, actions: ExecutedAction[]): void {
+    for (const action of actions) {
+      inspect({ type: "@ustate.action", event, action });
+    }
   }
 
   /**
@@ -220,6 +358,7 @@ export function createActor<TContext, TEvent extends EventObject>(
    */
   function notify(): void {
     const snapshot = getSnapshot();
+    inspect({ type: "@ustate.snapshot", snapshot });
     observers.forEach((observer) => {
       try {
         observer(snapshot);
@@ -239,32 +378,27 @@ export function createActor<TContext, TEvent extends EventObject>(
       const e = effect as any;
 
       if (e.type === "$$sendTo") {
-        const { actorId, event: eventToSend } = e;
-
-        // Check spawned actors
-        const spawned = spawnedActors.get(actorId);
-        if (spawned) {
-          spawned.send(eventToSend);
-          continue;
+        const { to, event: eventToSend } = e;
+        if (e.delay === undefined) {
+          sendToActor(to, eventToSend);
+        } else {
+          scheduleEvent(eventToSend, e.delay, e.id, to);
         }
-
-        // Check invoked actors
-        let found = false;
-        for (const actors of invokedActors.values()) {
-          const actor = actors.find((a) => a.id === actorId);
-          if (actor) {
-            actor.send(eventToSend);
-            found = true;
-            break;
-          }
+      } else if (e.type === "$$raise") {
+        if (e.delay === undefined) {
+          internalQueue.push(e.event);
+        } else {
+          scheduleEvent(e.event, e.delay, e.id);
         }
-
-        if (!found) {
-          console.warn(`Actor with id "${actorId}" not found`);
+      } else if (e.type === "$$cancel") {
+        const scheduled = scheduledEvents.get(e.id);
+        if (scheduled) {
+          stopTimer(services, scheduled.timerId);
+          scheduledEvents.delete(e.id);
         }
       } else if (e.type === "$$sendParent") {
         if (options?.sendParent) {
-          options.sendParent(e.event);
+          options.sendParent(e.event, actorId);
         } else {
           console.warn("sendParent called but no parent actor defined");
         }
@@ -273,111 +407,314 @@ export function createActor<TContext, TEvent extends EventObject>(
   }
 
   /**
-   * Process an event (can be called internally for invoked actor events)
+   * Send an event to an actor ref, or by ID to a spawned or invoked child
+   * actor or to an actor registered in the system
    */
-  function processEvent(event: TEvent | EventObject): void {
-    try {
-      if (!started) {
-        console.warn("Actor not started. Call start() before sending events.");
+  function sendToActor(
+    target: string | SystemActorRef,
+    eventToSend: EventObject,
+  ): void {
+    if (typeof target === "object") {
+      target.send(eventToSend);
+      return;
+    }
+    const actorId = target;
+
+    // Check spawned actors
+    const spawned = spawnedActors.get(actorId);
+    if (spawned) {
+      spawned.send(eventToSend);
+      return;
+    }
+
+    // Check invoked actors
+    for (const actors of invokedActors.values()) {
+      const actor = actors.find((a) => a.id === actorId);
+      if (actor) {
+        actor.send(eventToSend);
         return;
       }
+    }
 
-      // Make a copy of context for this transition
-      const contextCopy = cloneContext(currentContext);
+    // Check actors registered in the system
+    const registered = system.get(actorId);
+    if (registered) {
+      registered.send(eventToSend);
+      return;
+    }
 
-      const previousState = currentState;
+    console.warn(`Actor with id "${actorId}" not found`);
+  }
 
-      // deno-lint-ignore prefer-const
-      let result = computeTransition(
-        machine,
-        currentState,
-        contextCopy,
-        event as TEvent,
-        historyValue,
-        spawnFn,
-      );
+  /**
+   * Schedule a delayed event, replacing any pending event with the same ID
+   *
+   * Events are delivered to self unless another actor, or its ID, is given.
+   * The timers belong to the actor rather than a state, so they survive state
+   * exits until they fire, are cancelled, or the actor stops.
+   */
+  function scheduleEvent(
+    event: EventObject,
+    delay: number | string,
+    id: string = services.generateId("delayed"),
+    to?: string | SystemActorRef,
+  ): void {
+    const ms = resolveDelay(
+      delay,
+      { context: currentContext, event: event as TEvent },
+      machine.implementations,
+    );
+    setScheduledEvent(id, event, services.now() + ms, to);
+  }
 
-      // Update state and context
-      currentState = result.nextState;
-      currentContext = result.nextContext;
-      if (result.historyValue) {
-        historyValue = result.historyValue;
-      }
+  function setScheduledEvent(
+    id: string,
+    event: EventObject,
+    due: number,
+    to?: string | SystemActorRef,
+  ): void {
+    const existing = scheduledEvents.get(id);
+    if (existing) {
+      stopTimer(services, existing.timerId);
+    }
 
-      // Handle invoked actors if state changed
-      if (result.changed && previousState !== currentState) {
-        handleInvokedActors(previousState, currentState, event as TEvent);
+    const timerId = startTimer(services, () => {
+      scheduledEvents.delete(id);
+      if (to === undefined) {
+        receive(event, actorId);
+      } else {
+        sendToActor(to, event);
       }
+    }, Math.max(0, due - services.now()));
+    scheduledEvents.set(id, { timerId, event, due, to });
+  }
 
-      // Process effects
-      if (result.effects) {
-        processEffects(result.effects);
-      }
+  /**
+   * Stop all children and timers owned by this actor
+   */
+  function stopChildren(): void {
+    // Stop all spawned actors
+    spawnedActors.forEach((child) => inspectActor(child.id, "stopped"));
+    stopAllSpawnedActors(spawnedActors);
+
+    // Stop all invoked actors
+    for (const actors of invokedActors.values()) {
+      actors.forEach((actor) => {
+        actor.stop();
+        inspectActor(actor.id, "stopped");
+      });
+    }
+    invokedActors.clear();
 
-      // Notify observers
-      notify();
+    for (const timers of delayedTransitions.values()) {
+      timers.forEach(({ timerId }) => stopTimer(services, timerId));
+    }
+    delayedTransitions.clear();
 
-      // Handle transient transitions (always)
-      if (result.changed) {
-        processAlways(event);
+    scheduledEvents.forEach(({ timerId }) => stopTimer(services, timerId));
+    scheduledEvents.clear();
+  }
+
+  /**
+   * Run the exit actions of every active state, innermost first
+   */
+  function exitActiveStates(event: TEvent | EventObject): void {
+    // Parallel states are shared by their regions' paths, but exit only once
+    const visitedExit = new Set<string>();
+    const nodesToExit: {
+      path: string[];
+      config: StateNodeConfig<TContext, TEvent>;
+    }[] = [];
+    for (const path of stateValueToPaths(currentState)) {
+      getStateNodesInPath(machine, path).forEach((config, i) => {
+        const pathStr = path.slice(0, i + 1).join(".");
+        if (!visitedExit.has(pathStr)) {
+          visitedExit.add(pathStr);
+          nodesToExit.push({ path: path.slice(0, i + 1), config });
+        }
+      });
+    }
+
+    // Deepest first, so children exit before their parents
+    nodesToExit.sort((a, b) => b.path.length - a.path.length);
+    for (const { config } of nodesToExit) {
+      if (config.exit) {
+        const executed: ExecutedAction[] = [];
+        const effects = executeActions(
+          config.exit,
+          { context: currentContext, event: event as TEvent, spawn: spawnFn },
+          machine.implementations,
+          executed,
+          false,
+          machine,
+          currentState,
+        );
+        inspectActions(event, executed);
+        processEffects(effects);
       }
-    } catch (error) {
+    }
+  }
+
+  /**
+   * Complete the actor once a top-level final state has been reached
+   */
+  function complete(event: TEvent | EventObject): void {
+    status = "done";
+    if (machine.config.output) {
+      output = machine.config.output({ context: currentContext, event });
+    }
+    exitActiveStates(event);
+    internalQueue.length = 0;
+    stopChildren();
+
+    if (options?.id && options.sendParent) {
+      options.sendParent(
+        { type: `done.invoke.${options.id}`, output },
+        actorId,
+      );
+    }
+  }
+
+  /**
+   * Handle an error thrown while processing an event
+   *
+   * The actor stops with the `"error"` status. Invoked actors report the
+   * error to their parent, other actors log it.
+   */
+  function handleError(thrown: unknown): void {
+    status = "error";
+    error = thrown;
+    mailbox.length = 0;
+    internalQueue.length = 0;
+    stopChildren();
+
+    if (options?.id && options.sendParent) {
+      options.sendParent(
+        { type: `error.invoke.${options.id}`, error },
+        actorId,
+      );
+    } else {
       console.error("[Actor] Error processing event:", error);
     }
+    notify();
+  }
+
+  /**
+   * Receive an event into the mailbox
+   *
+   * Events sent while another event is being processed (from actions,
+   * observers or child actors) wait until the current macrostep completes.
+   */
+  function receive(event: TEvent | EventObject, sourceId?: string): void {
+    mailbox.push({ event, sourceId });
+    if (!processing) {
+      drainMailbox();
+    }
   }
 
   /**
-   * Process transient 'always' transitions
+   * Process mailbox events in order, each one to completion
    */
-  function processAlways(triggerEvent: TEvent | EventObject): void {
-    let steps = 0;
-    let keepGoing = true;
+  function drainMailbox(): void {
+    processing = true;
+    try {
+      while (mailbox.length > 0) {
+        const { event, sourceId } = mailbox.shift()!;
+        processEvent(event, sourceId);
+      }
+    } finally {
+      processing = false;
+    }
+  }
 
-    while (keepGoing && steps < 100) {
-      const transientEvent = { ...triggerEvent, type: "$$always" } as TEvent;
-      const prevTransientState = currentState;
-      const transientContext = cloneContext(currentContext);
+  /**
+   * Process an event as a macrostep: its transition, the resulting always
+   * transitions and any internal events raised along the way
+   *
+   * Observers are notified once, with the snapshot the macrostep settles in.
+   */
+  function processEvent(event: TEvent | EventObject, sourceId?: string): void {
+    if (status !== "active") return;
+
+    if (!started) {
+      console.warn("Actor not started. Call start() before sending events.");
+      return;
+    }
 
-      const result = computeTransition(
+    inspect({ type: "@ustate.event", event, sourceId });
+    try {
+      runMacrostep(
         machine,
-        currentState,
-        transientContext,
-        transientEvent,
-        historyValue,
-        spawnFn,
+        macrostepState(),
+        event as TEvent,
+        macrostepOptions,
       );
+    } catch (error) {
+      handleError(error);
+      return;
+    }
+    if (status === "active" || status === "done") {
+      notify();
+    }
+  }
 
-      if (result.changed) {
-        currentState = result.nextState;
-        currentContext = result.nextContext;
-        if (result.historyValue) {
-          historyValue = result.historyValue;
-        }
+  /**
+   * State for the shared macrostep loop; the actor's own state is updated
+   * from each microstep it takes
+   */
+  function macrostepState(): MacrostepState<TContext> {
+    return {
+      value: currentState,
+      context: currentContext,
+      historyValue,
+      done: status !== "active",
+    };
+  }
+
+  const macrostepOptions: MacrostepOptions<TContext, TEvent> = {
+    internalQueue,
+    spawn: spawnFn,
+    isActive: () => status === "active",
+    onInternalEvent: (event) => {
+      inspect({ type: "@ustate.event", event, sourceId: actorId });
+    },
+    onMicrostep: (result, event, previousValue, triggerEvent) => {
+      inspectTransition(event, result);
+
+      currentState = result.nextState;
+      currentContext = result.nextContext;
+      if (result.historyValue) {
+        historyValue = result.historyValue;
+      }
 
-        // Handle invoked actors for transient state changes
+      // Restart the invocations and timers of exited and entered states
+      if (result.changed) {
         handleInvokedActors(
-          prevTransientState,
+          previousValue,
           currentState,
-          triggerEvent as TEvent,
+          triggerEvent,
+          result.exitedPaths,
         );
+      }
 
-        // Process effects
-        if (result.effects) {
-          processEffects(result.effects);
-        }
-
-        // Notify observers of the transient state change
-        notify();
-
-        steps++;
-      } else {
-        keepGoing = false;
+      if (result.effects) {
+        processEffects(result.effects);
       }
-    }
+    },
+    onDone: complete,
+  };
 
-    if (steps >= 100) {
-      console.warn("Possible infinite loop in always transitions");
+  /**
+   * Emit inspection records for the transitions taken and actions executed
+   */
+  function inspectTransition(
+    event: EventObject,
+    result: TransitionResult<TContext>,
+  ): void {
+    for (const transition of result.transitions ?? []) {
+      inspect({ type: "@ustate.transition", event, ...transition });
     }
+    inspectActions(event, result.actions ?? []);
   }
 
   /**
@@ -389,33 +726,42 @@ export function createActor<TContext, TEvent extends EventObject>(
     event: TEvent,
   ): void {
     if (stateNode.after) {
-      const timers: number[] = [];
+      const now = services.now();
       for (const key of Object.keys(stateNode.after)) {
         const delay = resolveDelay(
           key,
           { context: currentContext, event },
           machine.implementations,
         );
-        const timerId = setTimeout(() => {
-          // deno-lint-ignore no-explicit-any
-          processEvent({ type: "$delay", key } as any);
-        }, delay);
-        timers.push(timerId);
+        startDelayTimer(pathStr, key, now + delay);
       }
-      delayedTransitions.set(pathStr, timers);
     }
   }
 
+  function startDelayTimer(pathStr: string, key: string, due: number): void {
+    const timerId = startTimer(services, () => {
+      // deno-lint-ignore no-explicit-any
+      receive({ type: "$delay", key } as any, actorId);
+    }, Math.max(0, due - services.now()));
+
+    const timers = delayedTransitions.get(pathStr) ?? [];
+    timers.push({ timerId, key, due });
+    delayedTransitions.set(pathStr, timers);
+  }
+
   function stopDelays(pathStr: string): void {
     const timers = delayedTransitions.get(pathStr);
     if (timers) {
-      timers.forEach((id) => clearTimeout(id));
+      timers.forEach(({ timerId }) => stopTimer(services, timerId));
       delayedTransitions.delete(pathStr);
     }
   }
 
   /**
    * Helper to start invocations for a specific state node
+   *
+   * Persisted children, matched to the invocations by position, restore the
+   * invoked actors with their previous IDs and snapshots.
    */
   function startInvocations(
     invokeConfig: InvokeConfig<TContext, TEvent> | InvokeConfig<
@@ -424,37 +770,43 @@ export function createActor<TContext, TEvent extends EventObject>(
     >[],
     pathStr: string,
     event: TEvent,
+    persistedChildren: PersistedChildSnapshot[] = [],
   ): void {
     const invocations = Array.isArray(invokeConfig)
       ? invokeConfig
       : [invokeConfig];
     const actors: InvokedActorRef[] = [];
 
-    for (const config of invocations) {
+    for (const [index, config] of invocations.entries()) {
+      const child = persistedChildren[index];
       const actor = createInvokedActor(
-        config,
+        child ? { ...config, id: child.id } : config,
         currentContext,
         event,
-        (e) => processEvent(e as TEvent),
+        (e, sourceId) => receive(e, sourceId),
+        machine.implementations?.actors,
+        { ...childOptions, snapshot: child?.snapshot },
       ) as InvokedActorRef;
       actors.push(actor);
+      inspectActor(actor.id, "started");
     }
 
     if (actors.length > 0) {
       invokedActors.set(pathStr, actors);
     }
-
-    // Notify observers
-    notify();
   }
 
   /**
    * Handle invoked actors when state changes
+   *
+   * States that were exited and re-entered restart their invocations and
+   * delayed transitions.
    */
   function handleInvokedActors(
     previousState: StateValue,
     newState: StateValue,
     event: TEvent,
+    exitedPaths: string[][] = [],
   ): void {
     const previousPaths = stateValueToPaths(previousState);
     const newPaths = stateValueToPaths(newState);
@@ -474,12 +826,23 @@ export function createActor<TContext, TEvent extends EventObject>(
       }
     }
 
+    const reentered = new Set(
+      exitedPaths
+        .map((path) => path.join("."))
+        .filter((pathStr) =>
+          prevActive.has(pathStr) && nextActive.has(pathStr)
+        ),
+    );
+
     // Stop invocations from exited states
     for (const pathStr of prevActive) {
-      if (!nextActive.has(pathStr)) {
+      if (!nextActive.has(pathStr) || reentered.has(pathStr)) {
         const actors = invokedActors.get(pathStr);
         if (actors) {
-          actors.forEach((actor) => actor.stop());
+          actors.forEach((actor) => {
+            actor.stop();
+            inspectActor(actor.id, "stopped");
+          });
           invokedActors.delete(pathStr);
         }
         stopDelays(pathStr);
@@ -488,7 +851,7 @@ export function createActor<TContext, TEvent extends EventObject>(
 
     // Start invocations for entered states
     for (const pathStr of nextActive) {
-      if (!prevActive.has(pathStr)) {
+      if (!prevActive.has(pathStr) || reentered.has(pathStr)) {
         const path = pathStr.split(".");
         const stateNode = getStateNodeByPath(machine, path);
 
@@ -502,63 +865,165 @@ export function createActor<TContext, TEvent extends EventObject>(
     }
   }
 
-  const actor: ActorRef<TContext, TEvent> = {
-    start(): ActorRef<TContext, TEvent> {
-      if (started) {
-        console.warn("Actor already started");
-        return actor;
+  /**
+   * Enter the initial state: run entry actions, start invocations and
+   * timers, then take any eventless transitions
+   */
+  function enterInitialState(): void {
+    // Execute entry actions for initial state(s)
+    const initEvent = { type: "$init" } as TEvent;
+    const paths = stateValueToPaths(currentState);
+    for (const path of paths) {
+      const nodes = getStateNodesInPath(machine, path);
+      for (const node of nodes) {
+        if (node.entry) {
+          const executed: ExecutedAction[] = [];
+          const effects = executeActions(
+            node.entry,
+            {
+              context: currentContext,
+              event: initEvent,
+              spawn: spawnFn,
+            },
+            machine.implementations,
+            executed,
+            false,
+            machine,
+            currentState,
+          );
+          inspectActions(initEvent, executed);
+          processEffects(effects);
+        }
       }
+    }
 
-      started = true;
+    // Start invoked actors for initial state(s)
+    for (const path of paths) {
+      const nodes = getStateNodesInPath(machine, path);
+
+      nodes.forEach((node, index) => {
+        const nodePath = path.slice(0, index + 1);
+        const pathStr = nodePath.join(".");
+
+        if (!invokedActors.has(pathStr) && node.invoke) {
+          startInvocations(
+            node.invoke,
+            pathStr,
+            { type: "$init" } as TEvent,
+          );
+        }
+        if (!delayedTransitions.has(pathStr)) {
+          startDelays(node, pathStr, { type: "$init" } as TEvent);
+        }
+      });
+    }
 
-      // Execute entry actions for initial state(s)
-      const paths = stateValueToPaths(currentState);
-      for (const path of paths) {
-        const nodes = getStateNodesInPath(machine, path);
-        for (const node of nodes) {
-          if (node.entry) {
-            const effects = executeActions(
-              node.entry,
-              {
-                context: currentContext,
-                event: { type: "$init" } as TEvent,
-                spawn: spawnFn,
-              },
-              machine.implementations,
-            );
-            processEffects(effects);
-          }
+    // Raise done events for initial final states
+    internalQueue.push(
+      ...getDoneStateEvents(
+        machine,
+        paths.flatMap((path) => path.map((_, i) => path.slice(0, i + 1))),
+        currentState,
+      ),
+    );
+    settleMacrostep(machine, macrostepState(), initEvent, macrostepOptions);
+
+    if (status === "active" || status === "done") {
+      notify();
+    }
+  }
+
+  /**
+   * Resume from a persisted snapshot without running entry actions
+   */
+  function restore(snapshot: PersistedSnapshot): void {
+    if (status !== "active") {
+      notify();
+      return;
+    }
+
+    // Spawned actors come first so references to them in context resolve
+    for (const child of snapshot.spawned) {
+      const logic = child.src === undefined
+        ? undefined
+        : machine.implementations?.actors?.[child.src];
+      if (!logic) {
+        console.warn(
+          `Cannot restore spawned actor "${child.id}": its logic is not in the machine's actors`,
+        );
+        continue;
+      }
+      spawnFn(logic, {
+        id: child.id,
+        systemId: child.systemId,
+        snapshot: child.snapshot,
+      });
+    }
+    currentContext = reviveActorRefs(currentContext, spawnedActors);
+
+    for (const path of stateValueToPaths(currentState)) {
+      getStateNodesInPath(machine, path).forEach((node, index) => {
+        const pathStr = path.slice(0, index + 1).join(".");
+        if (!invokedActors.has(pathStr) && node.invoke) {
+          startInvocations(
+            node.invoke,
+            pathStr,
+            { type: "$restore" } as TEvent,
+            snapshot.invoked[pathStr],
+          );
         }
+      });
+    }
+
+    for (const [pathStr, timers] of Object.entries(snapshot.delays)) {
+      for (const { key, due } of timers) {
+        startDelayTimer(pathStr, key, due);
       }
+    }
+    for (const { id, event, due, to } of snapshot.scheduled) {
+      setScheduledEvent(id, event, due, to);
+    }
 
-      // Start invoked actors for initial state(s)
-      for (const path of paths) {
-        const nodes = getStateNodesInPath(machine, path);
+    notify();
+  }
 
-        nodes.forEach((node, index) => {
-          const nodePath = path.slice(0, index + 1);
-          const pathStr = nodePath.join(".");
+  const actor: ActorRef<TContext, TEvent> = {
+    id: actorId,
+    systemId: options?.systemId,
+    system,
 
-          if (!invokedActors.has(pathStr) && node.invoke) {
-            startInvocations(node.invoke, pathStr, { type: "$init" } as TEvent);
-          }
-          if (!delayedTransitions.has(pathStr)) {
-            startDelays(node, pathStr, { type: "$init" } as TEvent);
-          }
-        });
+    start(): ActorRef<TContext, TEvent> {
+      if (started) {
+        console.warn("Actor already started");
+        return actor;
       }
 
-      // Check always transitions for initial state
-      processAlways({ type: "$init" });
+      started = true;
+      // Children are reported by their parent
+      if (options?.parentId === undefined) {
+        inspect({ type: "@ustate.actor", status: "started" });
+      }
 
-      // Notify initial state
-      notify();
+      // Events received during initialization wait in the mailbox
+      processing = true;
+      try {
+        if (persisted) {
+          restore(persisted);
+        } else {
+          enterInitialState();
+        }
+      } catch (thrown) {
+        handleError(thrown);
+      } finally {
+        processing = false;
+      }
+      drainMailbox();
 
       return actor;
     },
 
     send(event: TEvent): void {
-      processEvent(event);
+      receive(event);
     },
 
     subscribe(observer: Observer<TContext>): Subscription {
@@ -577,48 +1042,41 @@ export function createActor<TContext, TEvent extends EventObject>(
         return;
       }
 
-      // Stop all spawned actors
-      stopAllSpawnedActors(spawnedActors);
+      mailbox.length = 0;
 
-      // Stop all invoked actors
-      for (const actors of invokedActors.values()) {
-        actors.forEach((actor) => actor.stop());
+      // A completed actor has already exited and released its children
+      if (status !== "active") {
+        started = false;
+        system.unregister(actor);
+        inspectStopped();
+        observers.clear();
+        return;
       }
-      invokedActors.clear();
 
-      for (const timers of delayedTransitions.values()) {
-        timers.forEach((id) => clearTimeout(id));
-      }
-      delayedTransitions.clear();
-
-      // Execute exit actions for all current states
-      const paths = stateValueToPaths(currentState);
-      for (const path of paths) {
-        const nodes = getStateNodesInPath(machine, path);
-        for (let i = nodes.length - 1; i >= 0; i--) {
-          if (nodes[i].exit) {
-            const effects = executeActions(
-              nodes[i].exit,
-              {
-                context: currentContext,
-                event: { type: "$stop" } as TEvent,
-                spawn: spawnFn,
-              },
-              machine.implementations,
-            );
-            processEffects(effects);
-          }
-        }
-      }
+      // Exit actions run first, so timers they schedule are cleared with the
+      // rest
+      exitActiveStates({ type: "$stop" });
+      internalQueue.length = 0;
+      stopChildren();
 
       started = false;
+      status = "stopped";
+      system.unregister(actor);
+      notify();
+      inspectStopped();
       observers.clear();
     },
 
     getSnapshot(): StateSnapshot<TContext> {
       return getSnapshot();
     },
+
+    getPersistedSnapshot(): PersistedSnapshot<TContext> {
+      return getPersistedSnapshot();
+    },
   };
 
+  system.register(actor, options?.parent);
+
   return actor;
 }
@@ -0,0 +1,87 @@
+/**
+ * Context cloning
+ */
+
+/**
+ * Deep clone a value, preserving functions and handling circular references
+ */
+function deepClone<T>(value: T, seen = new WeakMap()): T {
+  // Primitives and functions
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+
+  // Handle circular references
+  if (seen.has(value)) {
+    return seen.get(value);
+  }
+
+  // Date
+  if (value instanceof Date) {
+    // deno-lint-ignore no-explicit-any
+    return new Date(value) as any;
+  }
+
+  // RegExp
+  if (value instanceof RegExp) {
+    // deno-lint-ignore no-explicit-any
+    return new RegExp(value) as any;
+  }
+
+  // Map
+  if (value instanceof Map) {
+    const copy = new Map();
+    seen.set(value, copy);
+    for (const [k, v] of value) {
+      copy.set(deepClone(k, seen), deepClone(v, seen));
+    }
+    // deno-lint-ignore no-explicit-any
+    return copy as any;
+  }
+
+  // Set
+  if (value instanceof Set) {
+    const copy = new Set();
+    seen.set(value, copy);
+    for (const v of value) {
+      copy.add(deepClone(v, seen));
+    }
+    // deno-lint-ignore no-explicit-any
+    return copy as any;
+  }
+
+  // Array
+  if (Array.isArray(value)) {
+    // deno-lint-ignore no-explicit-any
+    const copy: any[] = [];
+    seen.set(value, copy);
+    for (let i = 0; i < value.length; i++) {
+      copy[i] = deepClone(value[i], seen);
+    }
+    // deno-lint-ignore no-explicit-any
+    return copy as any;
+  }
+
+  // Plain Object
+  // deno-lint-ignore no-explicit-any
+  const copy = {} as any;
+  seen.set(value, copy);
+  for (const key in value) {
+    if (Object.prototype.hasOwnProperty.call(value, key)) {
+      // deno-lint-ignore no-explicit-any
+      copy[key] = deepClone((value as any)[key], seen);
+    }
+  }
+  return copy;
+}
+
+/**
+ * Clone context safely
+ */
+export function cloneContext<T>(context: T): T {
+  try {
+    return structuredClone(context);
+  } catch (_e) {
+    return deepClone(context);
+  }
+}
@@ -2,13 +2,19 @@
  * State machine creation and management
  */
 
-import { getServices } from "./services.ts";
+import {
+  getStateIdMap,
+  getStateNodeByPath,
+  getTransitionTargets,
+  resolveTargetPath,
+} from "./transition.ts";
 import type {
   EventObject,
   Machine,
   MachineConfig,
   MachineImplementations,
   StateNodeConfig,
+  TransitionDefinition,
 } from "./types.ts";
 
 /**
@@ -21,6 +27,18 @@ function validateStateNode<TContext, TEvent extends EventObject>(
 ): void {
   const fullPath = [...path, stateName].join(".");
 
+  // Final states are atomic and cannot be left
+  if (stateNode.type === "final") {
+    if (stateNode.states && Object.keys(stateNode.states).length > 0) {
+      throw new Error(`Final state "${fullPath}" cannot have child states`);
+    }
+    if (stateNode.onDone) {
+      throw new Error(
+        `Final state "${fullPath}" cannot have an onDone transition`,
+      );
+    }
+  }
+
   // If it has child states, it must have an initial state (unless it's parallel)
   if (stateNode.states && Object.keys(stateNode.states).length > 0) {
     if (stateNode.type === "parallel") {
@@ -62,20 +80,118 @@ function validateStateNode<TContext, TEvent extends EventObject>(
   }
 }
 
+/**
+ * Validate that every transition target resolves to a state node
+ */
+function validateTargets<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+): void {
+  const getSource = (path: string[]) =>
+    path.length > 0 ? path.join(".") : "(machine)";
+
+  const checkTarget = (target: string, path: string[]): string[] => {
+    const targetPath = resolveTargetPath(machine, target, path);
+    if (!targetPath) {
+      throw new Error(
+        `Target "${target}" in state "${
+          getSource(path)
+        }" could not be resolved`,
+      );
+    }
+    return targetPath;
+  };
+
+  // Multiple targets must lie in different regions of a parallel state
+  const checkConflicts = (
+    targets: string[],
+    targetPaths: string[][],
+    path: string[],
+  ) => {
+    for (let i = 0; i < targetPaths.length; i++) {
+      for (let j = i + 1; j < targetPaths.length; j++) {
+        const a = targetPaths[i];
+        const b = targetPaths[j];
+        let shared = 0;
+        while (
+          shared < a.length && shared < b.length && a[shared] === b[shared]
+        ) {
+          shared++;
+        }
+        const ancestor = getStateNodeByPath(machine, a.slice(0, shared));
+        if (
+          shared === a.length || shared === b.length ||
+          ancestor?.type !== "parallel"
+        ) {
+          throw new Error(
+            `Targets "${targets[i]}" and "${targets[j]}" in state "${
+              getSource(path)
+            }" conflict: they must be in different parallel regions`,
+          );
+        }
+      }
+    }
+  };
+
+  const checkDefinition = (
+    definition: TransitionDefinition<TContext, TEvent> | undefined,
+    path: string[],
+  ) => {
+    if (!definition) return;
+    const transitions = Array.isArray(definition) ? definition : [definition];
+    for (const transition of transitions) {
+      const targets = typeof transition === "string"
+        ? [transition]
+        : getTransitionTargets(transition);
+      const targetPaths = targets.map((target) => checkTarget(target, path));
+      checkConflicts(targets, targetPaths, path);
+    }
+  };
+
+  const visit = (
+    states: Record<string, StateNodeConfig<TContext, TEvent>>,
+    parentPath: string[],
+  ) => {
+    for (const [key, node] of Object.entries(states)) {
+      const path = [...parentPath, key];
+      if (node.type === "history" && node.target) {
+        checkTarget(node.target, path);
+      }
+      for (const definition of Object.values(node.on ?? {})) {
+        checkDefinition(definition, path);
+      }
+      checkDefinition(node.always, path);
+      for (const definition of Object.values(node.after ?? {})) {
+        checkDefinition(definition, path);
+      }
+      if (node.states) {
+        visit(node.states, path);
+      }
+    }
+  };
+
+  for (const definition of Object.values(machine.config.on ?? {})) {
+    checkDefinition(definition, []);
+  }
+  visit(machine.config.states, []);
+}
+
 /**
  * Register invoke transitions in state config
  */
 function registerInvokeTransitions<TContext, TEvent extends EventObject>(
   stateConfig: StateNodeConfig<TContext, TEvent>,
+  path: string[],
 ): void {
   if (stateConfig.invoke) {
     const invocations = Array.isArray(stateConfig.invoke)
       ? stateConfig.invoke
       : [stateConfig.invoke];
 
-    for (const invocation of invocations) {
+    for (const [index, invocation] of invocations.entries()) {
+      // Generated IDs depend only on the state path, so they are the same
+      // for every machine created from the same config
       const invokeId = invocation.id ||
-        getServices().generateId("invoked");
+        `${path.join(".")}:invocation[${index}]`;
 
       // Store the ID back in the invocation for later reference
       if (!invocation.id) {
@@ -107,8 +223,33 @@ function registerInvokeTransitions<TContext, TEvent extends EventObject>(
 
   // Recursively process child states
   if (stateConfig.states) {
-    for (const childConfig of Object.values(stateConfig.states)) {
-      registerInvokeTransitions(childConfig);
+    for (const [childName, childConfig] of Object.entries(stateConfig.states)) {
+      registerInvokeTransitions(childConfig, [...path, childName]);
+    }
+  }
+}
+
+/**
+ * Register onDone transitions of compound and parallel states
+ */
+function registerDoneTransitions<TContext, TEvent extends EventObject>(
+  stateConfig: StateNodeConfig<TContext, TEvent>,
+  path: string[],
+): void {
+  if (stateConfig.onDone) {
+    if (!stateConfig.on) {
+      // deno-lint-ignore no-explicit-any
+      stateConfig.on = {} as any;
+    }
+    // deno-lint-ignore no-explicit-any
+    (stateConfig.on as any)[`done.state.${path.join(".")}`] =
+      stateConfig.onDone;
+  }
+
+  // Recursively process child states
+  if (stateConfig.states) {
+    for (const [childName, childConfig] of Object.entries(stateConfig.states)) {
+      registerDoneTransitions(childConfig, [...path, childName]);
     }
   }
 }
@@ -159,10 +300,18 @@ export function createMachine<TContext, TEvent extends EventObject>(
   }
 
   // Register invoke transitions
-  for (const stateNode of Object.values(config.states)) {
-    registerInvokeTransitions(stateNode);
+  for (const [stateName, stateNode] of Object.entries(config.states)) {
+    registerInvokeTransitions(stateNode, [stateName]);
   }
 
+  // Register done transitions
+  for (const [stateName, stateNode] of Object.entries(config.states)) {
+    registerDoneTransitions(stateNode, [stateName]);
+  }
+
+  // Collect state IDs (rejecting duplicates) before resolving targets
+  getStateIdMap({ config } as Machine<TContext, TEvent>);
+
   const machine: Machine<TContext, TEvent> = {
     config,
     initialState: config.initial,
@@ -180,9 +329,15 @@ export function createMachine<TContext, TEvent extends EventObject>(
           ...implementations?.guards,
           ...newImplementations.guards,
         },
+        actors: {
+          ...implementations?.actors,
+          ...newImplementations.actors,
+        },
       });
     },
   };
 
+  validateTargets(machine);
+
   return machine;
 }
@@ -0,0 +1,97 @@
+/**
+ * Helpers for persisting and restoring actors
+ */
+
+/**
+ * Marker that replaces a spawned actor reference in persisted context
+ */
+interface ActorRefMarker {
+  $$actorRef: string;
+}
+
+interface IdentifiedRef {
+  id: string;
+  send: (event: never) => void;
+}
+
+function isActorRef(
+  value: unknown,
+  refs: Map<string, IdentifiedRef>,
+): value is IdentifiedRef {
+  // Context is cloned between transitions, so references are matched by ID
+  // rather than identity
+  // deno-lint-ignore no-explicit-any
+  const ref = value as any;
+  return typeof ref?.id === "string" && typeof ref.send === "function" &&
+    refs.has(ref.id);
+}
+
+function isActorRefMarker(value: unknown): value is ActorRefMarker {
+  return typeof value === "object" && value !== null &&
+    typeof (value as ActorRefMarker).$$actorRef === "string";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Replace nested values of arrays and plain objects
+ */
+function mapNested(
+  value: unknown,
+  replace: (value: unknown) => unknown | undefined,
+): unknown {
+  const replaced = replace(value);
+  if (replaced !== undefined) return replaced;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => mapNested(item, replace));
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = mapNested(item, replace);
+    }
+    return copy;
+  }
+  return value;
+}
+
+/**
+ * Replace spawned actor references in context with `{ $$actorRef: id }`
+ */
+export function persistActorRefs<T>(
+  context: T,
+  refs: Map<string, IdentifiedRef>,
+): T {
+  return mapNested(
+    context,
+    (value) => isActorRef(value, refs) ? { $$actorRef: value.id } : undefined,
+  ) as T;
+}
+
+/**
+ * Replace `{ $$actorRef: id }` markers in context with restored actors
+ */
+export function reviveActorRefs<T>(
+  context: T,
+  refs: Map<string, IdentifiedRef>,
+): T {
+  return mapNested(
+    context,
+    (value) => isActorRefMarker(value) ? refs.get(value.$$actorRef) : undefined,
+  ) as T;
+}
+
+/**
+ * Convert an error into a JSON-safe value
+ */
+export function persistError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return error;
+}
@@ -1,14 +1,20 @@
 /**
  * System services for non-deterministic operations
  *
- * This module centralizes all sources of non-determinism (like random ID generation)
- * to make the state machine library testable and support deterministic replay.
+ * This module centralizes all sources of non-determinism (like random ID generation
+ * and timers) to make the state machine library testable and support deterministic
+ * replay.
  *
  * Uses @nullstyle/urand for high-quality, seedable random number generation.
  */
 
 import { Prng } from "@nullstyle/urand";
 
+/**
+ * Handle of a timer started with `SystemServices.setTimeout`
+ */
+export type TimerHandle = unknown;
+
 /**
  * System services interface
  *
@@ -31,6 +37,25 @@ export interface SystemServices {
    */
   now(): number;
 
+  /**
+   * Schedule a callback after a delay, used for `after` transitions and
+   * delayed events
+   *
+   * Services without a scheduler fall back to the global `setTimeout`.
+   *
+   * @param callback - Function to call when the timer fires
+   * @param ms - Delay in milliseconds
+   * @returns A handle for `clearTimeout`
+   */
+  setTimeout?(callback: () => void, ms: number): TimerHandle;
+
+  /**
+   * Cancel a timer started with `setTimeout`
+   *
+   * @param handle - Handle returned by `setTimeout`
+   */
+  clearTimeout?(handle: TimerHandle): void;
+
   /**
    * Cleanup any resources held by this services instance
    */
@@ -74,8 +99,142 @@ function defaultNow(): number {
 export const defaultServices: SystemServices = {
   generateId: defaultGenerateId,
   now: defaultNow,
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as number),
 };
 
+/**
+ * Simulated clock that only advances when told to
+ *
+ * Timers fire synchronously from `advance()` and `runAll()`, in order of due
+ * time and then of scheduling.
+ */
+export interface SimulatedClock extends SystemServices {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+
+  /**
+   * Advance time, firing every timer that becomes due, including timers
+   * scheduled by the ones that fire
+   *
+   * @param ms - Milliseconds to advance by
+   */
+  advance(ms: number): void;
+
+  /**
+   * Fire pending timers until there are none left, advancing time to each
+   * one's due time
+   *
+   * @throws If timers keep scheduling new timers
+   */
+  runAll(): void;
+
+  /**
+   * Get the pending timers in firing order
+   */
+  pendingTimers(): { handle: TimerHandle; due: number }[];
+}
+
+interface SimulatedTimer {
+  handle: number;
+  due: number;
+  callback: () => void;
+}
+
+/**
+ * Create a simulated clock for testing delays without waiting
+ *
+ * IDs are generated by the `services` it is based on.
+ *
+ * @param startTime - Initial value of `now()` (default: 0)
+ * @param services - Services providing `generateId` (default: defaultServices)
+ * @returns SystemServices with a manually advanced clock
+ *
+ * @example
+ * ```ts
+ * const clock = createSimulatedClock();
+ * const actor = createActor(machine, { services: clock });
+ * actor.start();
+ * clock.advance(1000); // Fires `after: { 1000: ... }`
+ * ```
+ */
+export function createSimulatedClock(
+  startTime = 0,
+  services: SystemServices = defaultServices,
+): SimulatedClock {
+  let currentTime = startTime;
+  let nextHandle = 1;
+  let timers: SimulatedTimer[] = [];
+
+  function nextDue(until: number): SimulatedTimer | undefined {
+    let next: SimulatedTimer | undefined;
+    for (const timer of timers) {
+      if (timer.due <= until && (!next || timer.due < next.due)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  function fire(timer: SimulatedTimer): void {
+    timers = timers.filter((t) => t !== timer);
+    currentTime = Math.max(currentTime, timer.due);
+    timer.callback();
+  }
+
+  return {
+    generateId(prefix?: string): string {
+      return services.generateId(prefix);
+    },
+
+    now(): number {
+      return currentTime;
+    },
+
+    setTimeout(callback: () => void, ms: number): TimerHandle {
+      const handle = nextHandle++;
+      timers.push({ handle, due: currentTime + Math.max(0, ms), callback });
+      return handle;
+    },
+
+    clearTimeout(handle: TimerHandle): void {
+      timers = timers.filter((timer) => timer.handle !== handle);
+    },
+
+    advance(ms: number): void {
+      const target = currentTime + ms;
+      let timer: SimulatedTimer | undefined;
+      while ((timer = nextDue(target))) {
+        fire(timer);
+      }
+      currentTime = target;
+    },
+
+    runAll(): void {
+      for (let fired = 0; timers.length > 0; fired++) {
+        if (fired >= 10000) {
+          throw new Error(
+            "Simulated clock: timers are still pending after 10000 timers fired",
+          );
+        }
+        fire(nextDue(Infinity)!);
+      }
+    },
+
+    pendingTimers(): { handle: TimerHandle; due: number }[] {
+      return [...timers]
+        .sort((a, b) => a.due - b.due)
+        .map(({ handle, due }) => ({ handle, due }));
+    },
+
+    dispose(): void {
+      timers = [];
+      services.dispose?.();
+    },
+  };
+}
+
 /**
  * Create a deterministic services implementation for testing
  *
@@ -143,7 +302,8 @@ export function createCounterServices(startCounter = 0): SystemServices {
   };
 }
 
-// Global services instance (can be replaced for testing)
+// Global services instance, used by actors created without a `services`
+// option (can be replaced for testing)
 let globalServices: SystemServices = defaultServices;
 
 /**
@@ -153,6 +313,33 @@ export function getServices(): SystemServices {
   return globalServices;
 }
 
+/**
+ * Start a timer through the given services
+ */
+export function startTimer(
+  services: SystemServices,
+  callback: () => void,
+  ms: number,
+): TimerHandle {
+  return services.setTimeout
+    ? services.setTimeout(callback, ms)
+    : setTimeout(callback, ms);
+}
+
+/**
+ * Cancel a timer started with `startTimer`
+ */
+export function stopTimer(
+  services: SystemServices,
+  handle: TimerHandle,
+): void {
+  if (services.clearTimeout) {
+    services.clearTimeout(handle);
+  } else {
+    clearTimeout(handle as number);
+  }
+}
+
 /**
  * Set the global services instance
  *
@@ -2,27 +2,122 @@
  * State snapshot implementation
  */
 
-import type { EventObject, StateSnapshot, StateValue } from './types.ts';
-import { matchesStateValue } from './stateValue.ts';
+import type {
+  ActorStatus,
+  EventObject,
+  Machine,
+  StateNodeConfig,
+  StateSnapshot,
+  StateValue,
+} from "./types.ts";
+import { matchesStateValue, stateValueToPaths } from "./stateValue.ts";
+import { getStateNodeByPath } from "./transition.ts";
 
 /**
  * Create a state snapshot
+ *
+ * Tags and meta are collected from the active state nodes of `machine`.
  */
 export function createStateSnapshot<TContext>(
   value: StateValue,
   context: TContext,
-  canHandle: (event: EventObject) => boolean
+  canHandle: (event: EventObject) => boolean,
+  result: {
+    status: ActorStatus;
+    output?: unknown;
+    error?: unknown;
+    historyValue?: Record<string, StateValue>;
+  } = {
+    status: "active",
+  },
+  // deno-lint-ignore no-explicit-any
+  machine?: Machine<any, any>,
 ): StateSnapshot<TContext> {
+  const activeNodes = machine ? getActiveStateNodes(machine, value) : [];
+  const tags = new Set(activeNodes.flatMap(({ node }) => node.tags ?? []));
+
   return {
     value,
     context,
-    
+    status: result.status,
+    output: result.output,
+    error: result.error,
+    historyValue: result.historyValue,
+    tags,
+
     matches(stateValue: StateValue | string): boolean {
       return matchesStateValue(value, stateValue);
     },
-    
+
     can(event: EventObject): boolean {
       return canHandle(event);
     },
+
+    get nextEvents(): string[] {
+      const eventTypes = new Set<string>();
+      const transitionMaps = [
+        ...activeNodes.map(({ node }) => node.on),
+        machine?.config.on,
+      ];
+      for (const on of transitionMaps) {
+        for (const eventType of Object.keys(on ?? {})) {
+          if (isListedEventType(eventType)) eventTypes.add(eventType);
+        }
+      }
+      return [...eventTypes].filter((type) => {
+        try {
+          return canHandle({ type });
+        } catch {
+          // Guards that need event payload may pass once it is given
+          return true;
+        }
+      });
+    },
+
+    hasTag(tag: string): boolean {
+      return tags.has(tag);
+    },
+
+    getMeta(): Record<string, Record<string, unknown>> {
+      const meta: Record<string, Record<string, unknown>> = {};
+      for (const { path, node } of activeNodes) {
+        if (node.meta) {
+          meta[path] = node.meta;
+        }
+      }
+      return meta;
+    },
   };
 }
+
+/**
+ * Check whether an event descriptor is a concrete, external event type
+ */
+function isListedEventType(eventType: string): boolean {
+  return !eventType.includes("*") && !eventType.startsWith("$") &&
+    !/^(done\.state|done\.invoke|error\.invoke)\./.test(eventType);
+}
+
+/**
+ * Get the active state nodes (including ancestors) for a state value, keyed
+ * by dotted path
+ */
+function getActiveStateNodes(
+  // deno-lint-ignore no-explicit-any
+  machine: Machine<any, any>,
+  value: StateValue,
+  // deno-lint-ignore no-explicit-any
+): { path: string; node: StateNodeConfig<any, any> }[] {
+  // deno-lint-ignore no-explicit-any
+  const nodes = new Map<string, StateNodeConfig<any, any>>();
+  for (const path of stateValueToPaths(value)) {
+    for (let i = 1; i <= path.length; i++) {
+      const subPath = path.slice(0, i);
+      const key = subPath.join(".");
+      if (nodes.has(key)) continue;
+      const node = getStateNodeByPath(machine, subPath);
+      if (node) nodes.set(key, node);
+    }
+  }
+  return [...nodes].map(([path, node]) => ({ path, node }));
+}
@@ -0,0 +1,84 @@
+/**
+ * Actor system: registry and hierarchy of the actors started from a root actor
+ */
+
+import type { ActorSystem, SystemActorRef } from "./types.ts";
+
+/**
+ * Actor system with the registration functions used by actors
+ */
+export interface ActorSystemRegistry extends ActorSystem {
+  /**
+   * Register an actor under its parent and its system ID
+   *
+   * The first actor registered without a parent becomes the root.
+   */
+  register(actor: SystemActorRef, parent?: SystemActorRef): void;
+  /** Remove a stopped actor from the system */
+  unregister(actor: SystemActorRef): void;
+}
+
+/**
+ * Create an empty actor system
+ */
+export function createActorSystem(): ActorSystemRegistry {
+  let root: SystemActorRef | undefined;
+  const bySystemId = new Map<string, SystemActorRef>();
+  const parents = new Map<SystemActorRef, SystemActorRef>();
+  const children = new Map<SystemActorRef, Set<SystemActorRef>>();
+
+  return {
+    get root(): SystemActorRef {
+      if (!root) {
+        throw new Error("Actor system has no root actor");
+      }
+      return root;
+    },
+
+    get(systemId: string): SystemActorRef | undefined {
+      return bySystemId.get(systemId);
+    },
+
+    getChildren(actor: SystemActorRef): SystemActorRef[] {
+      return Array.from(children.get(actor) ?? []);
+    },
+
+    getParent(actor: SystemActorRef): SystemActorRef | undefined {
+      return parents.get(actor);
+    },
+
+    register(actor: SystemActorRef, parent?: SystemActorRef): void {
+      if (actor.systemId !== undefined) {
+        if (bySystemId.has(actor.systemId)) {
+          throw new Error(
+            `Actor with system ID "${actor.systemId}" already exists`,
+          );
+        }
+        bySystemId.set(actor.systemId, actor);
+      }
+
+      if (!parent) {
+        root ??= actor;
+      } else {
+        parents.set(actor, parent);
+        const siblings = children.get(parent) ?? new Set();
+        siblings.add(actor);
+        children.set(parent, siblings);
+      }
+    },
+
+    unregister(actor: SystemActorRef): void {
+      if (
+        actor.systemId !== undefined && bySystemId.get(actor.systemId) === actor
+      ) {
+        bySystemId.delete(actor.systemId);
+      }
+
+      const parent = parents.get(actor);
+      if (parent) {
+        children.get(parent)?.delete(actor);
+        parents.delete(actor);
+      }
+    },
+  };
+}
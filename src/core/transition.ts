@@ -8,15 +8,20 @@ import type {
   ActionFunction,
   ActorLogic,
   EventObject,
+  ExecutedAction,
   GuardDefinition,
   GuardFunction,
+  GuardResult,
   Machine,
   MachineImplementations,
+  SelectedTransition,
   StateNodeConfig,
   StateValue,
   TransitionConfig,
   TransitionDefinition,
+  TransitionMap,
 } from "./types.ts";
+import { cloneContext } from "./clone.ts";
 import {
   getHistoryValue,
   mergeStateValues,
@@ -85,6 +90,10 @@ export function resolveGuard<TContext, TEvent extends EventObject>(
     return guard;
   }
 
+  if (typeof guard === "string") {
+    return resolveGuard({ type: guard }, implementations);
+  }
+
   if (typeof guard === "object" && guard.type) {
     const impl = implementations?.guards?.[guard.type];
     if (impl) {
@@ -97,8 +106,29 @@ export function resolveGuard<TContext, TEvent extends EventObject>(
   return null;
 }
 
+// Built-in actions only update context or describe effects for the actor,
+// so they also run in pure transitions
+// deno-lint-ignore ban-types
+const builtinActions = new WeakSet<Function>();
+
+/**
+ * Mark an action function created by a built-in action creator
+ */
+export function markBuiltinAction<T extends (...args: never[]) => unknown>(
+  action: T,
+): T {
+  builtinActions.add(action);
+  return action;
+}
+
 /**
  * Execute actions
+ *
+ * Executed actions are recorded in `executed` when it is given. With `defer`,
+ * actions other than built-in ones are not run: they are returned among the
+ * effects as executable actions, bound to a copy of the current context.
+ * The machine and current state value let `enqueueActions` check `stateIn`
+ * guards.
  */
 export function executeActions<TContext, TEvent extends EventObject>(
   actions: ActionDefinition<TContext, TEvent> | ActionDefinition<
@@ -107,6 +137,10 @@ export function executeActions<TContext, TEvent extends EventObject>(
   >[] | undefined,
   context: ActionContext<TContext, TEvent>,
   implementations?: MachineImplementations<TContext, TEvent>,
+  executed?: ExecutedAction[],
+  defer = false,
+  machine?: Machine<TContext, TEvent>,
+  stateValue?: StateValue,
 ): unknown[] {
   if (!actions) return [];
 
@@ -116,9 +150,45 @@ export function executeActions<TContext, TEvent extends EventObject>(
   for (const action of actionList) {
     const actionFn = resolveAction(action, implementations);
     if (actionFn) {
+      const params = typeof action === "object"
+        ? resolveParams(action.params, context)
+        : undefined;
+      const record: ExecutedAction = typeof action === "object"
+        ? { type: action.type, params }
+        : { type: action.name || "(anonymous)" };
+      executed?.push(record);
+
+      if (defer && !builtinActions.has(actionFn)) {
+        const args = { ...context, context: cloneContext(context.context) };
+        results.push({
+          ...record,
+          // deno-lint-ignore no-explicit-any
+          exec: () => (actionFn as any)(args, params),
+        });
+        continue;
+      }
+
       // deno-lint-ignore no-explicit-any
-      const result = (actionFn as any)(context);
-      if (result !== undefined) {
+      const result = (actionFn as any)(context, params);
+      if (result?.type === "$$enqueueActions") {
+        // Run the actions chosen by enqueueActions in order
+        const queued = result.collect((
+          guard: GuardDefinition<TContext, TEvent>,
+        ) =>
+          evaluateGuard(guard, context, implementations, machine, stateValue)
+        );
+        results.push(
+          ...executeActions(
+            queued,
+            context,
+            implementations,
+            executed,
+            defer,
+            machine,
+            stateValue,
+          ),
+        );
+      } else if (result !== undefined) {
         results.push(result);
       }
     }
@@ -126,20 +196,80 @@ export function executeActions<TContext, TEvent extends EventObject>(
   return results;
 }
 
+/**
+ * Resolve params for a named guard or action, calling them if they are a
+ * function of the current context and event
+ */
+export function resolveParams<TContext, TEvent extends EventObject>(
+  params: unknown,
+  context: ActionContext<TContext, TEvent>,
+): unknown {
+  return typeof params === "function"
+    ? params({ context: context.context, event: context.event })
+    : params;
+}
+
 /**
  * Evaluate a guard condition
+ *
+ * Higher-order guards (`and`, `or`, `not`) are evaluated recursively.
+ * `stateIn` guards need the machine and current state value; without them
+ * they fail.
  */
 export function evaluateGuard<TContext, TEvent extends EventObject>(
   guard: GuardDefinition<TContext, TEvent> | undefined,
   context: ActionContext<TContext, TEvent>,
   implementations?: MachineImplementations<TContext, TEvent>,
+  machine?: Machine<TContext, TEvent>,
+  stateValue?: StateValue,
 ): boolean {
   if (!guard) return true;
 
+  const evaluate = (g: GuardDefinition<TContext, TEvent>) =>
+    evaluateGuard(g, context, implementations, machine, stateValue);
+
+  if (typeof guard === "object") {
+    switch (guard.type) {
+      case "$$and":
+        return (guard.guards as GuardDefinition<TContext, TEvent>[]).every(
+          evaluate,
+        );
+      case "$$or":
+        return (guard.guards as GuardDefinition<TContext, TEvent>[]).some(
+          evaluate,
+        );
+      case "$$not":
+        return !evaluate(guard.guard as GuardDefinition<TContext, TEvent>);
+      case "$$stateIn":
+        return machine !== undefined && stateValue !== undefined &&
+          isStateActive(machine, stateValue, guard.stateId as string);
+    }
+  }
+
   const guardFn = resolveGuard(guard, implementations);
   if (!guardFn) return true;
 
-  return guardFn(context);
+  const params = typeof guard === "object"
+    ? resolveParams(guard.params, context)
+    : undefined;
+  return guardFn(context, params);
+}
+
+/**
+ * Check whether a state, given as `"#id"` or an absolute path, is active in
+ * a state value
+ */
+export function isStateActive<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  stateValue: StateValue,
+  target: string,
+): boolean {
+  const targetPath = resolveTargetPath(machine, target, []);
+  if (!targetPath) return false;
+
+  return stateValueToPaths(stateValue).some((path) =>
+    targetPath.every((segment, i) => path[i] === segment)
+  );
 }
 
 /**
@@ -164,6 +294,94 @@ export function getStateNodeByPath<TContext, TEvent extends EventObject>(
   return current;
 }
 
+// Cache of state ID -> state path, per machine configuration
+const stateIdCache = new WeakMap<object, Map<string, string[]>>();
+
+/**
+ * Collect the paths of all state nodes that declare an `id`
+ *
+ * The machine's own `id` maps to the root (an empty path). A machine without
+ * an `id` is addressed as `#root`, unless a state declares that ID.
+ */
+export function getStateIdMap<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+): Map<string, string[]> {
+  const cached = stateIdCache.get(machine.config);
+  if (cached) return cached;
+
+  const idMap = new Map<string, string[]>();
+  if (machine.config.id) {
+    idMap.set(machine.config.id, []);
+  }
+
+  const visit = (
+    states: Record<string, StateNodeConfig<TContext, TEvent>>,
+    parentPath: string[],
+  ) => {
+    for (const [key, node] of Object.entries(states)) {
+      const path = [...parentPath, key];
+      if (node.id) {
+        if (idMap.has(node.id)) {
+          throw new Error(`Duplicate state ID "${node.id}"`);
+        }
+        idMap.set(node.id, path);
+      }
+      if (node.states) {
+        visit(node.states, path);
+      }
+    }
+  };
+  visit(machine.config.states, []);
+  if (!machine.config.id && !idMap.has("root")) {
+    idMap.set("root", []);
+  }
+
+  stateIdCache.set(machine.config, idMap);
+  return idMap;
+}
+
+/**
+ * Resolve a transition target to an absolute state path
+ *
+ * Targets can reference a state ID (`"#id"`, optionally followed by a child
+ * path like `"#id.child"`), a descendant of the source state (`".child"`), a
+ * path from the root, or a sibling of the source state. Returns null if the
+ * target does not resolve to an existing state node.
+ */
+export function resolveTargetPath<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  target: string,
+  sourcePath: string[],
+): string[] | null {
+  let path: string[];
+
+  if (target.startsWith("#")) {
+    const idMap = getStateIdMap(machine);
+    const id = target.slice(1);
+    const exact = idMap.get(id);
+    if (exact) {
+      path = exact;
+    } else {
+      const [baseId, ...childPath] = id.split(".");
+      const basePath = idMap.get(baseId);
+      if (!basePath) return null;
+      path = [...basePath, ...childPath];
+    }
+  } else if (target.startsWith(".")) {
+    path = [...sourcePath, ...target.slice(1).split(".")];
+  } else {
+    const segments = target.split(".");
+    path = machine.config.states[segments[0]]
+      ? segments
+      : [...sourcePath.slice(0, -1), ...segments];
+  }
+
+  if (path.length === 0 || !getStateNodeByPath(machine, path)) {
+    return null;
+  }
+  return path;
+}
+
 /**
  * Get all state nodes in a path (from root to leaf)
  */
@@ -200,9 +418,11 @@ export function findTransitionInPath<TContext, TEvent extends EventObject>(
   context: TContext,
   implementations?: MachineImplementations<TContext, TEvent>,
   spawn?: (
-    logic: ActorLogic<unknown, unknown, EventObject>,
+    logic: ActorLogic<unknown, unknown, EventObject> | string,
     options?: { id?: string; input?: unknown },
   ) => unknown,
+  stateValue?: StateValue,
+  guardResults?: GuardResult[],
 ):
   | { transition: TransitionConfig<TContext, TEvent>; fromPath: string[] }
   | null {
@@ -219,6 +439,9 @@ export function findTransitionInPath<TContext, TEvent extends EventObject>(
         event,
         spawn,
         implementations,
+        machine,
+        stateValue,
+        guardResults,
       );
       if (transition) {
         return { transition, fromPath: currentPath };
@@ -226,14 +449,17 @@ export function findTransitionInPath<TContext, TEvent extends EventObject>(
     }
 
     if (stateNode?.on) {
-      const definition = stateNode.on[event.type as TEvent["type"]];
-      if (definition) {
+      const candidates = getCandidateTransitions(stateNode.on, event.type);
+      if (candidates.length > 0) {
         const transition = findValidTransition(
-          definition,
+          candidates,
           context,
           event,
           spawn,
           implementations,
+          machine,
+          stateValue,
+          guardResults,
         );
         if (transition) {
           return { transition, fromPath: currentPath };
@@ -253,6 +479,9 @@ export function findTransitionInPath<TContext, TEvent extends EventObject>(
           event,
           spawn,
           implementations,
+          machine,
+          stateValue,
+          guardResults,
         );
         if (transition) {
           return { transition, fromPath: currentPath };
@@ -264,6 +493,52 @@ export function findTransitionInPath<TContext, TEvent extends EventObject>(
   return null;
 }
 
+/**
+ * Check whether an event would be handled by an enabled transition
+ *
+ * Transitions are selected the same way `computeTransition` selects them
+ * (including `always`, wildcard and global transitions), evaluating guards
+ * without running any actions.
+ */
+export function isEventEnabled<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  stateValue: StateValue,
+  context: TContext,
+  event: TEvent,
+): boolean {
+  for (const path of stateValueToPaths(stateValue)) {
+    const result = findTransitionInPath(
+      machine,
+      path,
+      event,
+      context,
+      machine.implementations,
+      undefined,
+      stateValue,
+    );
+    if (result) return true;
+  }
+
+  // Global transitions are only taken when they have a target
+  if (machine.config.on) {
+    const candidates = getCandidateTransitions(machine.config.on, event.type);
+    if (candidates.length > 0) {
+      const transition = findValidTransition(
+        candidates,
+        context,
+        event,
+        undefined,
+        machine.implementations,
+        machine,
+        stateValue,
+      );
+      return Boolean(transition?.target);
+    }
+  }
+
+  return false;
+}
+
 /**
  * Resolve initial state for a compound state
  */
@@ -289,29 +564,12 @@ export function resolveInitialState<TContext, TEvent extends EventObject>(
 export function getInitialStateValue<TContext, TEvent extends EventObject>(
   machine: Machine<TContext, TEvent>,
 ): StateValue {
-  const initialState = machine.config.states[machine.initialState];
-  if (!initialState) {
+  if (!machine.config.states[machine.initialState]) {
     return machine.initialState;
   }
 
-  // Check if it's a parallel state
-  if (initialState.type === "parallel" && initialState.states) {
-    const parallelValues: Record<string, StateValue> = {};
-    for (const [key, childState] of Object.entries(initialState.states)) {
-      // For parallel regions, just get the initial state of each region
-      if (childState.initial && childState.states) {
-        const childPath = resolveInitialState(childState, []);
-        parallelValues[key] = pathToStateValue(childPath);
-      } else {
-        parallelValues[key] = key;
-      }
-    }
-    return { [machine.initialState]: parallelValues };
-  }
-
-  // Resolve compound state
-  const path = resolveInitialState(initialState, [machine.initialState]);
-  return pathToStateValue(path);
+  // Resolve the initial states of compound and parallel descendants
+  return resolveTarget(machine, [machine.initialState]);
 }
 
 /**
@@ -328,6 +586,14 @@ export interface TransitionResult<TContext> {
   effects?: unknown[];
   /** Updated history */
   historyValue?: Record<string, StateValue>;
+  /** done.state events raised by entered final states */
+  doneEvents?: EventObject[];
+  /** Paths of the state nodes exited by the transition, including re-entered ones */
+  exitedPaths?: string[][];
+  /** Transitions taken, with the guards evaluated to select them */
+  transitions?: SelectedTransition[];
+  /** Actions executed, in order */
+  actions?: ExecutedAction[];
 }
 
 function getValueAtPath(
@@ -356,9 +622,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
   event: TEvent,
   historyValue: Record<string, StateValue> | undefined,
   spawn?: (
-    logic: ActorLogic<unknown, unknown, EventObject>,
+    logic: ActorLogic<unknown, unknown, EventObject> | string,
     options?: { id?: string; input?: unknown },
   ) => unknown,
+  deferActions = false,
 ): TransitionResult<TContext> {
   const currentPaths = stateValueToPaths(currentState);
 
@@ -366,8 +633,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
   interface TransitionInfo {
     transition: TransitionConfig<TContext, TEvent>;
     fromPath: string[];
-    fullTargetPath: string[];
+    fullTargetPaths: string[][];
     lcaIndex: number;
+    internal: boolean;
+    guards: GuardResult[];
   }
 
   const allTransitions: TransitionInfo[] = [];
@@ -375,6 +644,7 @@ export function computeTransition<TContext, TEvent extends EventObject>(
   // Find transitions in all parallel paths
   for (let pathIndex = 0; pathIndex < currentPaths.length; pathIndex++) {
     const currentPath = currentPaths[pathIndex];
+    const guards: GuardResult[] = [];
     const result = findTransitionInPath(
       machine,
       currentPath,
@@ -382,37 +652,71 @@ export function computeTransition<TContext, TEvent extends EventObject>(
       currentContext,
       machine.implementations,
       spawn,
+      currentState,
+      guards,
     );
 
     if (result) {
       const { transition, fromPath } = result;
 
-      // Determine target path (explicit)
-      let fullTargetPath: string[] = fromPath;
-      if (transition.target) {
-        const targetSegments = transition.target.split(".");
-        if (machine.config.states[targetSegments[0]]) {
-          fullTargetPath = targetSegments;
-        } else {
-          const parentPath = fromPath.slice(0, -1);
-          fullTargetPath = [...parentPath, ...targetSegments];
+      // Determine target paths (explicit)
+      const targets = getTransitionTargets(transition);
+      const fullTargetPaths = targets.length > 0
+        ? targets.map((target) =>
+          resolveTargetPath(machine, target, fromPath) ?? fromPath
+        )
+        : [fromPath];
+
+      // Find the transition domain, the deepest state node that is not
+      // exited. Without `reenter`, the source and all targets share the
+      // longest common ancestor, and a transition to the source itself is
+      // external: self-targets exit and re-enter the source, while
+      // descendant (".child") and ancestor targets do not.
+      let lcaIndex = fromPath.length;
+      if (transition.reenter === undefined) {
+        for (const fullTargetPath of fullTargetPaths) {
+          let sharedIndex = 0;
+          while (
+            sharedIndex < lcaIndex &&
+            sharedIndex < fullTargetPath.length &&
+            fromPath[sharedIndex] === fullTargetPath[sharedIndex]
+          ) {
+            sharedIndex++;
+          }
+          lcaIndex = sharedIndex;
+        }
+        const descendantOnly = targets.length > 0 &&
+          targets.every((target) => target.startsWith("."));
+        if (lcaIndex === fromPath.length && !descendantOnly) {
+          lcaIndex--;
+        }
+      } else {
+        // With `reenter` the domain follows XState v5: `reenter: false`
+        // keeps a transition to the source or its descendants within the
+        // source; any other transition, or one with `reenter: true`, is
+        // contained by the closest proper ancestor of the source and all
+        // targets, so a targeted ancestor or the source is re-entered.
+        const withinSource = !transition.reenter &&
+          fullTargetPaths.every((path) =>
+            fromPath.every((segment, i) => path[i] === segment)
+          );
+        if (!withinSource) {
+          for (const fullTargetPath of fullTargetPaths) {
+            let sharedIndex = 0;
+            while (
+              sharedIndex < lcaIndex &&
+              sharedIndex < fullTargetPath.length - 1 &&
+              fromPath[sharedIndex] === fullTargetPath[sharedIndex]
+            ) {
+              sharedIndex++;
+            }
+            lcaIndex = sharedIndex;
+          }
+          lcaIndex = Math.max(0, Math.min(lcaIndex, fromPath.length - 1));
         }
       }
-
-      // Find LCA (Longest Common Ancestor)
-      let lcaIndex = 0;
-      while (
-        lcaIndex < fromPath.length &&
-        lcaIndex < fullTargetPath.length &&
-        fromPath[lcaIndex] === fullTargetPath[lcaIndex]
-      ) {
-        lcaIndex++;
-      }
-
-      // Handle external transition on self/ancestor
-      if (lcaIndex === fromPath.length) {
-        lcaIndex--;
-      }
+      // Targetless transitions only run their actions
+      const internal = targets.length === 0;
 
       // Check if this transition conflicts with an already found transition
       // (i.e., they share an ancestor that would be exited)
@@ -452,7 +756,14 @@ export function computeTransition<TContext, TEvent extends EventObject>(
       }
 
       if (!conflicts) {
-        allTransitions.push({ transition, fromPath, fullTargetPath, lcaIndex });
+        allTransitions.push({
+          transition,
+          fromPath,
+          fullTargetPaths,
+          lcaIndex,
+          internal,
+          guards,
+        });
       }
     }
   }
@@ -460,6 +771,7 @@ export function computeTransition<TContext, TEvent extends EventObject>(
   // Process all collected transitions
   if (allTransitions.length > 0) {
     const effects: unknown[] = [];
+    const executed: ExecutedAction[] = [];
     const newHistoryValue = { ...(historyValue || {}) };
     const visitedExit = new Set<string>();
     const visitedEnter = new Set<string>();
@@ -478,15 +790,24 @@ export function computeTransition<TContext, TEvent extends EventObject>(
     > = [];
 
     for (
-      const { transition, fromPath, fullTargetPath, lcaIndex } of allTransitions
+      const { transition, fromPath, fullTargetPaths, lcaIndex, internal }
+        of allTransitions
     ) {
+      if (internal) {
+        if (transition.actions) {
+          transitionActions.push(transition.actions);
+        }
+        continue;
+      }
+
       const lcaPath = fromPath.slice(0, lcaIndex);
 
-      // Resolve next state value (handling history, parallel, etc.)
-      const nextStateValue = resolveTarget(
-        machine,
-        fullTargetPath,
-        historyValue,
+      // Resolve next state value (handling history, parallel, etc.), merging
+      // the values of multiple targets into one configuration
+      const nextStateValue = mergeStateValues(
+        ...fullTargetPaths.map((fullTargetPath) =>
+          resolveTarget(machine, fullTargetPath, historyValue)
+        ),
       );
       allNextStateValues.push(nextStateValue);
       const nextPaths = stateValueToPaths(nextStateValue);
@@ -566,6 +887,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
           config.exit,
           { context: currentContext, event, spawn },
           machine.implementations,
+          executed,
+          deferActions,
+          machine,
+          currentState,
         );
         effects.push(...res);
       }
@@ -577,6 +902,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
         actions,
         { context: currentContext, event, spawn },
         machine.implementations,
+        executed,
+        deferActions,
+        machine,
+        currentState,
       );
       effects.push(...transitionResults);
     }
@@ -589,6 +918,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
           config.entry,
           { context: currentContext, event, spawn },
           machine.implementations,
+          executed,
+          deferActions,
+          machine,
+          currentState,
         );
         effects.push(...res);
       }
@@ -622,23 +955,45 @@ export function computeTransition<TContext, TEvent extends EventObject>(
       changed: true,
       effects,
       historyValue: newHistoryValue,
+      doneEvents: getDoneStateEvents(
+        machine,
+        nodesToEnter.map(({ path }) => path),
+        completedState,
+      ),
+      exitedPaths: nodesToExit.map(({ path }) => path),
+      transitions: allTransitions.map((
+        { transition, fromPath, fullTargetPaths, guards },
+      ) => ({
+        source: fromPath,
+        targets: getTransitionTargets(transition).length > 0
+          ? fullTargetPaths
+          : [],
+        guards,
+      })),
+      actions: executed,
     };
   }
 
   // Try global transitions
   if (machine.config.on) {
-    const definition = machine.config.on[event.type as TEvent["type"]];
-    if (definition) {
+    const candidates = getCandidateTransitions(machine.config.on, event.type);
+    if (candidates.length > 0) {
+      const guards: GuardResult[] = [];
       const globalTransition = findValidTransition(
-        definition,
+        candidates,
         currentContext,
         event,
         spawn,
         machine.implementations,
+        machine,
+        currentState,
+        guards,
       );
 
       if (globalTransition && globalTransition.target) {
+        const targets = getTransitionTargets(globalTransition);
         const effects: unknown[] = [];
+        const executed: ExecutedAction[] = [];
 
         // Execute exit actions for all current states
         for (const currentPath of currentPaths) {
@@ -648,6 +1003,10 @@ export function computeTransition<TContext, TEvent extends EventObject>(
               exitNodes[i].exit,
               { context: currentContext, event, spawn },
               machine.implementations,
+              executed,
+              deferActions,
+              machine,
+              currentState,
             );
             effects.push(...results);
           }
@@ -658,33 +1017,63 @@ export function computeTransition<TContext, TEvent extends EventObject>(
           globalTransition.actions,
           { context: currentContext, event, spawn },
           machine.implementations,
+          executed,
+          deferActions,
+          machine,
+          currentState,
         );
         effects.push(...transitionResults);
 
-        // Resolve target
-        const targetPath = globalTransition.target.split(".");
-        const targetNode = getStateNodeByPath(machine, targetPath);
-        let resolvedPath = targetPath;
-        if (targetNode) {
-          resolvedPath = resolveInitialState(targetNode, targetPath);
-        }
+        // Resolve targets
+        const targetPaths = targets.map((target) =>
+          resolveTargetPath(machine, target, []) ?? target.split(".")
+        );
+        const resolvedPaths = targetPaths.map((targetPath) => {
+          const targetNode = getStateNodeByPath(machine, targetPath);
+          return targetNode
+            ? resolveInitialState(targetNode, targetPath)
+            : targetPath;
+        });
+
+        // Execute entry actions, entering shared ancestors only once
+        const enteredPaths: string[][] = [];
+        const enteredKeys = new Set<string>();
+        for (const resolvedPath of resolvedPaths) {
+          const entryNodes = getStateNodesInPath(machine, resolvedPath);
+          entryNodes.forEach((node, i) => {
+            const entryPath = resolvedPath.slice(0, i + 1);
+            const key = entryPath.join(".");
+            if (enteredKeys.has(key)) return;
+            enteredKeys.add(key);
+            enteredPaths.push(entryPath);
 
-        // Execute entry actions
-        const entryNodes = getStateNodesInPath(machine, resolvedPath);
-        for (const node of entryNodes) {
-          const results = executeActions(
-            node.entry,
-            { context: currentContext, event, spawn },
-            machine.implementations,
-          );
-          effects.push(...results);
+            const results = executeActions(
+              node.entry,
+              { context: currentContext, event, spawn },
+              machine.implementations,
+              executed,
+              deferActions,
+              machine,
+              currentState,
+            );
+            effects.push(...results);
+          });
         }
 
+        const nextState = mergeStateValues(
+          ...resolvedPaths.map(pathToStateValue),
+        );
         return {
-          nextState: pathToStateValue(resolvedPath),
+          nextState,
           nextContext: currentContext,
           changed: true,
           effects,
+          doneEvents: getDoneStateEvents(machine, enteredPaths, nextState),
+          exitedPaths: currentPaths.flatMap((currentPath) =>
+            currentPath.map((_, i) => currentPath.slice(0, i + 1))
+          ),
+          transitions: [{ source: [], targets: targetPaths, guards }],
+          actions: executed,
         };
       }
     }
@@ -698,6 +1087,247 @@ export function computeTransition<TContext, TEvent extends EventObject>(
   };
 }
 
+/**
+ * Check whether a compound or parallel state node has completed
+ *
+ * A compound state is done when its active child is a final state, a parallel
+ * state is done when all of its regions are done. An empty path checks the
+ * machine root.
+ */
+export function isStateNodeDone<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  stateValue: StateValue,
+  path: string[] = [],
+): boolean {
+  const node = path.length === 0
+    ? { states: machine.config.states }
+    : getStateNodeByPath(machine, path);
+  if (!node?.states) return false;
+
+  if (node.type === "parallel") {
+    return Object.keys(node.states).every((key) =>
+      isStateNodeDone(machine, stateValue, [...path, key])
+    );
+  }
+
+  const value = path.length === 0
+    ? stateValue
+    : getValueAtPath(stateValue, path);
+  let activeChild: string | undefined;
+  if (typeof value === "string") {
+    activeChild = value;
+  } else if (value && typeof value === "object" && !Array.isArray(value)) {
+    activeChild = Object.keys(value)[0];
+  }
+
+  return activeChild !== undefined &&
+    node.states[activeChild]?.type === "final";
+}
+
+/**
+ * Compute the done.state events raised by entering final states
+ */
+export function getDoneStateEvents<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  enteredPaths: string[][],
+  stateValue: StateValue,
+): EventObject[] {
+  const doneEvents: EventObject[] = [];
+  const seen = new Set<string>();
+
+  const raiseDone = (path: string[]) => {
+    const type = `done.state.${path.join(".")}`;
+    if (!seen.has(type)) {
+      seen.add(type);
+      doneEvents.push({ type });
+    }
+  };
+
+  for (const path of enteredPaths) {
+    const node = getStateNodeByPath(machine, path);
+    // Top-level final states complete the machine itself
+    if (node?.type !== "final" || path.length < 2) continue;
+
+    raiseDone(path.slice(0, -1));
+
+    // Parallel ancestors, however deeply nested, are done once every region
+    // is done
+    for (let i = path.length - 2; i > 0; i--) {
+      const ancestorPath = path.slice(0, i);
+      if (isStateNodeDone(machine, stateValue, ancestorPath)) {
+        raiseDone(ancestorPath);
+      }
+    }
+  }
+
+  return doneEvents;
+}
+
+/**
+ * State of a machine as a macrostep advances it
+ */
+export interface MacrostepState<TContext> {
+  value: StateValue;
+  context: TContext;
+  historyValue: Record<string, StateValue>;
+  /** Whether a top-level final state has been reached */
+  done: boolean;
+}
+
+/**
+ * Hooks through which actors and the pure transition functions carry out
+ * the effects of a macrostep
+ */
+export interface MacrostepOptions<TContext, TEvent extends EventObject> {
+  /** Internal events waiting to be processed, drained by the macrostep */
+  internalQueue: EventObject[];
+  spawn?: (
+    logic: ActorLogic<unknown, unknown, EventObject> | string,
+    options?: { id?: string; input?: unknown },
+  ) => unknown;
+  /** Return custom actions as effects instead of executing them */
+  deferActions?: boolean;
+  /** Whether the macrostep may continue, checked before each microstep */
+  isActive?: () => boolean;
+  /** Called before an event from the internal queue is processed */
+  onInternalEvent?: (event: EventObject) => void;
+  /**
+   * Called after each microstep, once the state has been updated; effects
+   * queueing internal events push them onto the internal queue
+   */
+  onMicrostep: (
+    result: TransitionResult<TContext>,
+    event: TEvent,
+    previousValue: StateValue,
+    triggerEvent: TEvent,
+  ) => void;
+  /** Called once, when a top-level final state has been reached */
+  onDone?: (event: TEvent) => void;
+}
+
+/**
+ * Process an event as a macrostep: its transition, the eventless
+ * transitions that follow it and the internal events raised along the way
+ */
+export function runMacrostep<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  event: TEvent,
+  options: MacrostepOptions<TContext, TEvent>,
+): void {
+  if (microstep(machine, state, event, event, options)) {
+    processAlways(machine, state, event, options);
+  }
+  processInternalQueue(machine, state, options);
+}
+
+/**
+ * Complete the macrostep that entered the initial state: check for
+ * completion, then take eventless transitions and process internal events
+ */
+export function settleMacrostep<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  triggerEvent: TEvent,
+  options: MacrostepOptions<TContext, TEvent>,
+): void {
+  checkMacrostepCompletion(machine, state, triggerEvent, options);
+  processAlways(machine, state, triggerEvent, options);
+  processInternalQueue(machine, state, options);
+}
+
+function canContinue<TContext, TEvent extends EventObject>(
+  state: MacrostepState<TContext>,
+  options: MacrostepOptions<TContext, TEvent>,
+): boolean {
+  return !state.done && (options.isActive?.() ?? true);
+}
+
+function processAlways<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  triggerEvent: TEvent,
+  options: MacrostepOptions<TContext, TEvent>,
+): void {
+  let steps = 0;
+  while (canContinue(state, options) && steps < 100) {
+    const transientEvent = { ...triggerEvent, type: "$$always" } as TEvent;
+    if (!microstep(machine, state, transientEvent, triggerEvent, options)) {
+      return;
+    }
+    steps++;
+  }
+
+  if (steps >= 100) {
+    console.warn("Possible infinite loop in always transitions");
+  }
+}
+
+function processInternalQueue<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  options: MacrostepOptions<TContext, TEvent>,
+): void {
+  const { internalQueue } = options;
+  while (canContinue(state, options) && internalQueue.length > 0) {
+    const event = internalQueue.shift() as TEvent;
+    options.onInternalEvent?.(event);
+    if (microstep(machine, state, event, event, options)) {
+      processAlways(machine, state, event, options);
+    }
+  }
+}
+
+/**
+ * Take a single microstep, returning whether a transition was taken
+ *
+ * Eventless transitions that change nothing are not taken.
+ */
+function microstep<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  event: TEvent,
+  triggerEvent: TEvent,
+  options: MacrostepOptions<TContext, TEvent>,
+): boolean {
+  const result = computeTransition(
+    machine,
+    state.value,
+    cloneContext(state.context),
+    event,
+    state.historyValue,
+    options.spawn,
+    options.deferActions,
+  );
+  if (event.type === "$$always" && !result.changed) return false;
+
+  const previousValue = state.value;
+  state.value = result.nextState;
+  state.context = result.nextContext;
+  if (result.historyValue) {
+    state.historyValue = result.historyValue;
+  }
+
+  options.onMicrostep(result, event, previousValue, triggerEvent);
+  options.internalQueue.push(...(result.doneEvents ?? []));
+  checkMacrostepCompletion(machine, state, triggerEvent, options);
+  return result.changed;
+}
+
+function checkMacrostepCompletion<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: MacrostepState<TContext>,
+  event: TEvent,
+  options: MacrostepOptions<TContext, TEvent>,
+): void {
+  if (!canContinue(state, options) || !isStateNodeDone(machine, state.value)) {
+    return;
+  }
+
+  state.done = true;
+  options.onDone?.(event);
+}
+
 /**
  * Helper to wrap a state value in a path
  */
@@ -745,16 +1375,8 @@ function recursiveResolve<TContext, TEvent extends EventObject>(
 
     // Default history target
     if (stateNode.target) {
-      const targetPath = stateNode.target.split(".");
-      let resolvedPath: string[];
-
-      // Check if absolute
-      if (machine.config.states[targetPath[0]]) {
-        resolvedPath = targetPath;
-      } else {
-        // Relative to parent
-        resolvedPath = [...parentPath, ...targetPath];
-      }
+      const resolvedPath = resolveTargetPath(machine, stateNode.target, path) ??
+        [...parentPath, ...stateNode.target.split(".")];
 
       return resolveTarget(machine, resolvedPath, historyValue);
     }
@@ -919,18 +1541,100 @@ function normalizeTransitionDefinition<TContext, TEvent extends EventObject>(
   return [definition as TransitionConfig<TContext, TEvent>];
 }
 
+/**
+ * Get the target strings of a transition as an array
+ */
+export function getTransitionTargets<TContext, TEvent extends EventObject>(
+  transition: TransitionConfig<TContext, TEvent>,
+): string[] {
+  if (transition.target === undefined) return [];
+  return Array.isArray(transition.target)
+    ? transition.target
+    : [transition.target];
+}
+
+/**
+ * Check whether an event type matches an event descriptor
+ *
+ * Descriptors are exact event types, the `"*"` wildcard, or partial
+ * descriptors like `"mouse.*"` that match `mouse` and any `mouse.` event.
+ * Internal `$`-prefixed events only match exactly.
+ */
+export function matchesEventDescriptor(
+  descriptor: string,
+  eventType: string,
+): boolean {
+  if (descriptor === eventType) return true;
+  if (eventType.startsWith("$")) return false;
+  if (descriptor === "*") return true;
+  if (!descriptor.endsWith(".*")) return false;
+
+  const prefix = descriptor.slice(0, -2);
+  return eventType === prefix || eventType.startsWith(`${prefix}.`);
+}
+
+/**
+ * Rank a matching descriptor so that more specific descriptors come first
+ */
+function descriptorSpecificity(descriptor: string, eventType: string): number {
+  if (descriptor === eventType) return Infinity;
+  if (descriptor === "*") return 0;
+  return descriptor.split(".").length;
+}
+
+/**
+ * Get the descriptors of an `on` map that match an event, most specific first:
+ * the exact event type, then partial descriptors (longest first), then `"*"`
+ */
+export function getCandidateDescriptors<TContext, TEvent extends EventObject>(
+  on: TransitionMap<TContext, TEvent>,
+  eventType: string,
+): string[] {
+  return Object.keys(on)
+    .filter((descriptor) => matchesEventDescriptor(descriptor, eventType))
+    .sort((a, b) =>
+      descriptorSpecificity(b, eventType) - descriptorSpecificity(a, eventType)
+    );
+}
+
+/**
+ * Get the transitions of an `on` map that match an event, in the order of
+ * their descriptors
+ */
+export function getCandidateTransitions<TContext, TEvent extends EventObject>(
+  on: TransitionMap<TContext, TEvent>,
+  eventType: string,
+): TransitionConfig<TContext, TEvent>[] {
+  const definitions = on as Record<
+    string,
+    TransitionDefinition<TContext, TEvent> | undefined
+  >;
+
+  return getCandidateDescriptors(on, eventType)
+    .flatMap((descriptor) => {
+      const definition = definitions[descriptor];
+      return definition ? normalizeTransitionDefinition(definition) : [];
+    });
+}
+
 /**
  * Find the first valid transition from a definition
+ *
+ * The result of each evaluated guard is recorded in `guardResults` when it is
+ * given.
  */
 function findValidTransition<TContext, TEvent extends EventObject>(
   definition: TransitionDefinition<TContext, TEvent>,
   context: TContext,
   event: TEvent,
   spawn?: (
-    logic: ActorLogic<unknown, unknown, EventObject>,
+    logic: ActorLogic<unknown, unknown, EventObject> | string,
     options?: { id?: string; input?: unknown },
   ) => unknown,
   implementations?: MachineImplementations<TContext, TEvent>,
+  machine?: Machine<TContext, TEvent>,
+  stateValue?: StateValue,
+  guardResults?: GuardResult[],
 ): TransitionConfig<TContext, TEvent> | null {
   const transitions = normalizeTransitionDefinition(definition);
 
@@ -939,7 +1643,12 @@ function findValidTransition<TContext, TEvent extends EventObject>(
       transition.guard,
       { context, event, spawn },
       implementations,
+      machine,
+      stateValue,
     );
+    if (transition.guard) {
+      guardResults?.push({ guard: transition.guard, passed: guardPassed });
+    }
     if (guardPassed) {
       return transition;
     }
@@ -12,6 +12,17 @@ export interface EventObject {
   [key: string]: unknown;
 }
 
+/**
+ * Function type whose parameters are checked bivariantly, like a method's
+ *
+ * Callbacks in machine configs take the machine's context and events, so with
+ * strictly checked parameters a machine with a specific context could not be
+ * used where any machine is accepted, such as an invoke `src`.
+ */
+type Bivariant<TArgs extends unknown[], TReturn> = {
+  method(...args: TArgs): TReturn;
+}["method"];
+
 /**
  * Action execution context
  */
@@ -22,75 +33,181 @@ export interface ActionContext<TContext, TEvent extends EventObject> {
   event: TEvent;
   /** Spawn an actor */
   spawn?: (
-    logic: ActorLogic<unknown, unknown, EventObject>,
-    options?: { id?: string; input?: unknown },
+    logic: ActorLogic<unknown, unknown, EventObject> | string,
+    options?: { id?: string; systemId?: string; input?: unknown },
   ) => unknown;
 }
 
 /**
  * Action function type
+ *
+ * Named actions referenced as `{ type, params }` receive the resolved params
+ * as the second argument.
+ */
+export type ActionFunction<
+  TContext,
+  TEvent extends EventObject,
+  // deno-lint-ignore no-explicit-any
+  TParams = any,
+> = Bivariant<[args: ActionContext<TContext, TEvent>, params: TParams], void>;
+
+/**
+ * Reference to a named action implementation, with optional params
  */
-export type ActionFunction<TContext, TEvent extends EventObject> = (
-  args: ActionContext<TContext, TEvent>,
-) => void;
+export interface NamedAction<TContext, TEvent extends EventObject> {
+  type: string;
+  params?: ParamsDefinition<TContext, TEvent>;
+  [key: string]: unknown;
+}
 
 /**
- * Action definition - can be a function or object with type
+ * Action definition - can be a function or a named action reference
  */
-export type ActionDefinition<TContext, TEvent extends EventObject> =
+export type ActionDefinition<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> =
   | ActionFunction<TContext, TEvent>
-  | { type: string; [key: string]: unknown };
+  | TNamedAction;
+
+/**
+ * Named action references allowed by a map of action implementations, with
+ * params checked against each implementation's declared params
+ */
+export type NamedActionsFrom<
+  TContext,
+  TEvent extends EventObject,
+  TActions,
+> = {
+  [K in keyof TActions & string]: TActions[K] extends (
+    args: ActionContext<TContext, TEvent>,
+    params: infer TParams,
+  ) => void ? {
+      type: K;
+      params?:
+        | TParams
+        | ((args: { context: TContext; event: TEvent }) => TParams);
+    }
+    : never;
+}[keyof TActions & string];
 
 /**
  * Guard function type
+ *
+ * Named guards referenced as `{ type, params }` receive the resolved params as
+ * the second argument.
+ */
+export type GuardFunction<
+  TContext,
+  TEvent extends EventObject,
+  // deno-lint-ignore no-explicit-any
+  TParams = any,
+> = Bivariant<
+  [args: ActionContext<TContext, TEvent>, params: TParams],
+  boolean
+>;
+
+/**
+ * Params for a named guard or action - a value, or a function computing it
+ * from the current context and event
  */
-export type GuardFunction<TContext, TEvent extends EventObject> = (
-  args: ActionContext<TContext, TEvent>,
-) => boolean;
+export type ParamsDefinition<TContext, TEvent extends EventObject> =
+  | Bivariant<[args: { context: TContext; event: TEvent }], unknown>
+  | object
+  | string
+  | number
+  | boolean;
 
 /**
- * Guard definition - can be a function or object with type
+ * Guard definition - a function, the name of a guard implementation, or an
+ * object with type (and optional params)
  */
 export type GuardDefinition<TContext, TEvent extends EventObject> =
   | GuardFunction<TContext, TEvent>
-  | { type: string; [key: string]: unknown };
+  | string
+  | {
+    type: string;
+    params?: ParamsDefinition<TContext, TEvent>;
+    [key: string]: unknown;
+  };
 
 /**
  * Delay function type
  */
-export type DelayFunction<TContext, TEvent extends EventObject> = (
-  args: ActionContext<TContext, TEvent>,
-) => number;
+export type DelayFunction<TContext, TEvent extends EventObject> = Bivariant<
+  [args: ActionContext<TContext, TEvent>],
+  number
+>;
 
 /**
  * Transition configuration
  */
-export interface TransitionConfig<TContext, TEvent extends EventObject> {
-  /** Target state to transition to */
-  target?: string;
+export interface TransitionConfig<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> {
+  /**
+   * Target state to transition to, or several targets in different parallel
+   * regions to enter together
+   */
+  target?: string | string[];
   /** Actions to execute during transition */
-  actions?: ActionDefinition<TContext, TEvent> | ActionDefinition<
-    TContext,
-    TEvent
-  >[];
+  actions?:
+    | ActionDefinition<TContext, TEvent, TNamedAction>
+    | ActionDefinition<TContext, TEvent, TNamedAction>[];
   /** Guard condition for the transition */
   guard?: GuardDefinition<TContext, TEvent>;
+  /**
+   * Whether the source state (or a targeted ancestor) is exited and re-entered,
+   * restarting its entry/exit actions, invocations and `after` timers
+   *
+   * When set, the transition follows XState v5: with `false`, transitions
+   * targeting the source or its descendants do not re-enter it. When unset,
+   * self-targets re-enter the source, while descendant and ancestor targets
+   * do not. Targetless transitions never re-enter.
+   */
+  reenter?: boolean;
 }
 
 /**
  * Transition definition - can be a string target, a transition config object, or an array of them
  */
-export type TransitionDefinition<TContext, TEvent extends EventObject> =
+export type TransitionDefinition<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> =
   | string
-  | TransitionConfig<TContext, TEvent>
-  | (string | TransitionConfig<TContext, TEvent>)[];
+  | TransitionConfig<TContext, TEvent, TNamedAction>
+  | (string | TransitionConfig<TContext, TEvent, TNamedAction>)[];
 
 /**
- * Map of event types to transitions
+ * Map of event descriptors to transitions
+ *
+ * Keys are exact event types, partial descriptors such as `"mouse.*"`, or the
+ * `"*"` wildcard matching any event.
  */
-export type TransitionMap<TContext, TEvent extends EventObject> = {
-  [K in TEvent["type"]]?: TransitionDefinition<TContext, TEvent>;
-};
+export type TransitionMap<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> =
+  & {
+    [K in TEvent["type"]]?: TransitionDefinition<
+      TContext,
+      TEvent,
+      TNamedAction
+    >;
+  }
+  & {
+    [K in "*" | `${string}.*`]?: TransitionDefinition<
+      TContext,
+      TEvent,
+      TNamedAction
+    >;
+  };
 
 /**
  * Actor logic types
@@ -100,10 +217,16 @@ export type ActorLogic<
   TOutput = unknown,
   TEvent extends EventObject = EventObject,
 > =
-  | Machine<unknown, TEvent>
+  | Machine<unknown, EventObject>
   | PromiseLogic<TInput, TOutput>
   | CallbackLogic<TEvent>;
 
+/**
+ * Named actor logic, keyed by the string used as an invoke `src`
+ */
+// deno-lint-ignore no-explicit-any
+export type ActorLogicMap = Record<string, ActorLogic<any, any, any>>;
+
 /**
  * Promise-based actor logic
  */
@@ -127,44 +250,59 @@ export interface CallbackLogic<TEvent extends EventObject = EventObject> {
 /**
  * Invoke configuration
  */
-export interface InvokeConfig<TContext, TEvent extends EventObject> {
+export interface InvokeConfig<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> {
   id?: string;
+  /** ID under which the actor is registered in the actor system */
+  systemId?: string;
   src: ActorLogic<unknown, unknown, EventObject> | string;
   input?:
-    | ((args: { context: TContext; event: TEvent }) => unknown)
+    | Bivariant<[args: { context: TContext; event: TEvent }], unknown>
     | Record<string, unknown>;
-  onDone?: TransitionDefinition<TContext, TEvent>;
-  onError?: TransitionDefinition<TContext, TEvent>;
+  onDone?: TransitionDefinition<TContext, TEvent, TNamedAction>;
+  onError?: TransitionDefinition<TContext, TEvent, TNamedAction>;
 }
 
 /**
  * State node configuration
  */
-export interface StateNodeConfig<TContext, TEvent extends EventObject> {
+export interface StateNodeConfig<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> {
+  /** Unique state ID, targetable as `#id` */
+  id?: string;
   /** Transitions from this state */
-  on?: TransitionMap<TContext, TEvent>;
+  on?: TransitionMap<TContext, TEvent, TNamedAction>;
   /** Delayed transitions */
-  after?: Record<string | number, TransitionDefinition<TContext, TEvent>>;
+  after?: Record<
+    string | number,
+    TransitionDefinition<TContext, TEvent, TNamedAction>
+  >;
   /** Eventless transitions */
-  always?: TransitionDefinition<TContext, TEvent>;
+  always?: TransitionDefinition<TContext, TEvent, TNamedAction>;
   /** Actions to execute on entry to this state */
-  entry?: ActionDefinition<TContext, TEvent> | ActionDefinition<
-    TContext,
-    TEvent
-  >[];
+  entry?:
+    | ActionDefinition<TContext, TEvent, TNamedAction>
+    | ActionDefinition<TContext, TEvent, TNamedAction>[];
   /** Actions to execute on exit from this state */
-  exit?: ActionDefinition<TContext, TEvent> | ActionDefinition<
-    TContext,
-    TEvent
-  >[];
+  exit?:
+    | ActionDefinition<TContext, TEvent, TNamedAction>
+    | ActionDefinition<TContext, TEvent, TNamedAction>[];
   /** Invoked actors */
-  invoke?: InvokeConfig<TContext, TEvent> | InvokeConfig<TContext, TEvent>[];
+  invoke?:
+    | InvokeConfig<TContext, TEvent, TNamedAction>
+    | InvokeConfig<TContext, TEvent, TNamedAction>[];
   /** Metadata for this state */
   meta?: Record<string, unknown>;
   /** Tags for this state */
   tags?: string[];
-  /** Type of state node: 'atomic' (default), 'compound' (has children), 'parallel', or 'history' */
-  type?: "atomic" | "compound" | "parallel" | "history";
+  /** Type of state node: 'atomic' (default), 'compound' (has children), 'parallel', 'history', or 'final' */
+  type?: "atomic" | "compound" | "parallel" | "history" | "final";
   /** History mode (for history states) */
   history?: "shallow" | "deep";
   /** Default target (for history states) */
@@ -172,23 +310,34 @@ export interface StateNodeConfig<TContext, TEvent extends EventObject> {
   /** Initial child state (for compound states) */
   initial?: string;
   /** Child states (for compound and parallel states) */
-  states?: Record<string, StateNodeConfig<TContext, TEvent>>;
+  states?: Record<string, StateNodeConfig<TContext, TEvent, TNamedAction>>;
+  /** Transition taken when this compound or parallel state reaches a final state */
+  onDone?: TransitionDefinition<TContext, TEvent, TNamedAction>;
 }
 
 /**
  * Machine configuration
  */
-export interface MachineConfig<TContext, TEvent extends EventObject> {
-  /** Unique identifier for the machine */
+export interface MachineConfig<
+  TContext,
+  TEvent extends EventObject,
+  TNamedAction = NamedAction<TContext, TEvent>,
+> {
+  /** Unique identifier for the machine, targetable as `#id` (default: `root`) */
   id?: string;
   /** Initial state */
   initial: string;
   /** Initial context */
   context?: TContext | (() => TContext);
   /** State definitions */
-  states: Record<string, StateNodeConfig<TContext, TEvent>>;
+  states: Record<string, StateNodeConfig<TContext, TEvent, TNamedAction>>;
   /** Global transitions (available in all states) */
-  on?: TransitionMap<TContext, TEvent>;
+  on?: TransitionMap<TContext, TEvent, TNamedAction>;
+  /** Output of the machine, computed when a top-level final state is reached */
+  output?: Bivariant<
+    [args: { context: TContext; event: EventObject }],
+    unknown
+  >;
 }
 
 /**
@@ -202,6 +351,12 @@ interface StateValueObject {
 
 interface StateValueArray extends Array<StateValue> {}
 
+/**
+ * Actor status: running, completed via a top-level final state, failed with
+ * an error, or stopped
+ */
+export type ActorStatus = "active" | "done" | "error" | "stopped";
+
 /**
  * State snapshot representing the current state
  */
@@ -210,10 +365,36 @@ export interface StateSnapshot<TContext> {
   value: StateValue;
   /** Current context */
   context: TContext;
+  /** Status of the actor */
+  status: ActorStatus;
+  /** Output of the machine once it has reached a top-level final state */
+  output?: unknown;
+  /** Error that put the actor into the `"error"` status */
+  error?: unknown;
+  /** Last active child states of states with history, keyed by state path */
+  historyValue?: Record<string, StateValue>;
+  /** Tags of all active state nodes */
+  tags: Set<string>;
   /** Check if the current state matches a given state value */
   matches(value: StateValue | string): boolean;
-  /** Check if an event can be handled in the current state */
+  /**
+   * Check if an event would be handled by an enabled transition in the
+   * current state, evaluating guards without running actions
+   */
   can(event: EventObject): boolean;
+  /**
+   * Event types with at least one enabled transition in the current state
+   *
+   * Guards are evaluated with an event that has no payload (`{ type }`);
+   * event types whose guards throw on it are listed as potentially enabled.
+   * Wildcard and partial descriptors and internal done/error events are not
+   * listed.
+   */
+  nextEvents: string[];
+  /** Check if any active state node has the given tag */
+  hasTag(tag: string): boolean;
+  /** Get the meta of all active state nodes, keyed by state path */
+  getMeta(): Record<string, Record<string, unknown>>;
 }
 
 /**
@@ -233,6 +414,12 @@ export type Observer<TContext> = (state: StateSnapshot<TContext>) => void;
  * Actor reference for interacting with a running machine
  */
 export interface ActorRef<TContext, TEvent extends EventObject> {
+  /** ID under which the parent knows the actor, or the machine ID */
+  id: string;
+  /** ID under which the actor is registered in its system */
+  systemId?: string;
+  /** The actor system shared by this actor, its parent and its children */
+  system: ActorSystem;
   /** Start the actor */
   start(): ActorRef<TContext, TEvent>;
   /** Send an event to the actor */
@@ -243,8 +430,183 @@ export interface ActorRef<TContext, TEvent extends EventObject> {
   stop(): void;
   /** Get the current state snapshot */
   getSnapshot(): StateSnapshot<TContext>;
+  /** Get a JSON-safe snapshot that can restore the actor later */
+  getPersistedSnapshot(): PersistedSnapshot<TContext>;
 }
 
+/**
+ * Actor as seen through the actor system
+ */
+export interface SystemActorRef {
+  id: string;
+  systemId?: string;
+  send(event: EventObject): void;
+  getSnapshot(): StateSnapshot<unknown>;
+}
+
+/**
+ * Actor system shared by a root actor and all of its descendants
+ *
+ * Actors invoked or spawned with a `systemId` can be looked up from anywhere
+ * in the system, and the parent/child hierarchy of running actors can be
+ * walked from the root.
+ */
+export interface ActorSystem {
+  /** The root actor */
+  readonly root: SystemActorRef;
+  /** Get the running actor registered under a system ID */
+  get(systemId: string): SystemActorRef | undefined;
+  /** Get the running children of an actor */
+  getChildren(actor: SystemActorRef): SystemActorRef[];
+  /** Get the parent of an actor, undefined for the root actor */
+  getParent(actor: SystemActorRef): SystemActorRef | undefined;
+}
+
+/**
+ * Persisted state of a child actor
+ */
+export interface PersistedChildSnapshot {
+  /** Actor ID */
+  id: string;
+  /** System ID of a spawned actor */
+  systemId?: string;
+  /** Key of the actor logic in the machine's `actors` implementations */
+  src?: string;
+  /** Persisted snapshot of a machine actor */
+  snapshot?: PersistedSnapshot;
+}
+
+/**
+ * Pending delayed event of a persisted actor
+ */
+export interface PersistedScheduledEvent {
+  /** Delayed event ID */
+  id: string;
+  event: EventObject;
+  /** Timestamp at which the event is due */
+  due: number;
+  /** ID of the child actor the event is sent to, if not sent to self */
+  to?: string;
+}
+
+/**
+ * JSON-safe snapshot of an actor, returned by `getPersistedSnapshot()`
+ *
+ * Pass it to `createActor(machine, { snapshot })` to restore the actor.
+ * Timers are stored with the timestamp at which they are due, so a restored
+ * actor only waits for their remaining time.
+ */
+export interface PersistedSnapshot<TContext = unknown> {
+  status: ActorStatus;
+  value: StateValue;
+  /** Context, with spawned actor references replaced by `{ $$actorRef: id }` */
+  context: TContext;
+  output?: unknown;
+  error?: unknown;
+  /** Recorded history state values */
+  historyValue: Record<string, StateValue>;
+  /** Invoked actors, keyed by the path of the state that invoked them */
+  invoked: Record<string, PersistedChildSnapshot[]>;
+  /** Spawned actors */
+  spawned: PersistedChildSnapshot[];
+  /** Pending `after` transitions, keyed by state path */
+  delays: Record<string, { key: string; due: number }[]>;
+  /** Pending delayed events */
+  scheduled: PersistedScheduledEvent[];
+}
+
+/**
+ * Result of a guard evaluated while selecting a transition
+ */
+export interface GuardResult {
+  // deno-lint-ignore no-explicit-any
+  guard: GuardDefinition<any, any>;
+  passed: boolean;
+}
+
+/**
+ * Transition selected for an event
+ */
+export interface SelectedTransition {
+  /** Path of the source state node, empty for root-level transitions */
+  source: string[];
+  /** Paths of the target state nodes, empty for targetless transitions */
+  targets: string[][];
+  /** Guards evaluated to select the transition, in evaluation order */
+  guards: GuardResult[];
+}
+
+/**
+ * Action executed by an actor
+ */
+export interface ExecutedAction {
+  /** Name of the action, or the function name for inline actions */
+  type: string;
+  params?: unknown;
+}
+
+/**
+ * Action returned by the pure `transition` functions instead of being run
+ *
+ * Custom actions carry `exec`, which runs them with a copy of the context
+ * they would have seen. Effects of built-in actions keep their marker type
+ * (`"$$sendTo"`, `"$$sendParent"`, `"$$cancel"` or a delayed `"$$raise"`)
+ * and fields, for the caller to carry out. Spawned actors are returned as
+ * `"$$spawn"` actions with the `id`, `src`, `input` and placeholder
+ * `actorRef` stored in the context.
+ */
+export interface ExecutableAction extends ExecutedAction {
+  /** Run the action */
+  exec?: () => void;
+  [key: string]: unknown;
+}
+
+interface InspectionRecordBase {
+  /** ID of the actor the record is about */
+  actorId: string;
+  /** ID of its parent actor */
+  parentId?: string;
+  /** `SystemServices.now()` when the record was produced */
+  timestamp: number;
+}
+
+/**
+ * Structured record emitted to the `inspect` actor option
+ *
+ * - `@ustate.event`: an event is processed, with the ID of its sender
+ * - `@ustate.transition`: a transition is selected for the event
+ * - `@ustate.action`: an action is executed
+ * - `@ustate.actor`: an actor is started or stopped
+ * - `@ustate.snapshot`: an actor produced a new snapshot
+ */
+export type InspectionEvent =
+  | InspectionRecordBase & {
+    type: "@ustate.event";
+    event: EventObject;
+    /**
+     * ID of the child actor, or of the actor itself, that sent the event;
+     * undefined for events sent through `send()`
+     */
+    sourceId?: string;
+  }
+  | InspectionRecordBase & SelectedTransition & {
+    type: "@ustate.transition";
+    event: EventObject;
+  }
+  | InspectionRecordBase & {
+    type: "@ustate.action";
+    event: EventObject;
+    action: ExecutedAction;
+  }
+  | InspectionRecordBase & {
+    type: "@ustate.actor";
+    status: "started" | "stopped";
+  }
+  | InspectionRecordBase & {
+    type: "@ustate.snapshot";
+    snapshot: StateSnapshot<unknown>;
+  };
+
 /**
  * Machine implementation
  */
@@ -271,31 +633,58 @@ export interface MachineImplementations<TContext, TEvent extends EventObject> {
   guards?: Record<string, GuardFunction<TContext, TEvent>>;
   /** Named delays */
   delays?: Record<string, DelayFunction<TContext, TEvent> | number>;
+  /** Named actor logic, referenced by string `src` in invoke configs */
+  actors?: ActorLogicMap;
 }
 
 /**
  * Setup configuration
  */
-export interface SetupConfig<TContext, TEvent extends EventObject> {
+export interface SetupConfig<
+  TContext,
+  TEvent extends EventObject,
+  TActions extends Record<string, ActionFunction<TContext, TEvent>> = Record<
+    string,
+    ActionFunction<TContext, TEvent>
+  >,
+> {
   /** Type definitions */
   types?: {
     context?: TContext;
     events?: TEvent;
   };
   /** Action implementations */
-  actions?: Record<string, ActionFunction<TContext, TEvent>>;
+  actions?: TActions;
   /** Guard implementations */
   guards?: Record<string, GuardFunction<TContext, TEvent>>;
   /** Delay implementations */
   delays?: Record<string, DelayFunction<TContext, TEvent> | number>;
+  /** Actor logic implementations */
+  actors?: ActorLogicMap;
 }
 
 /**
  * Setup return type
  */
-export interface SetupReturn<TContext, TEvent extends EventObject> {
-  /** Create a machine with the setup configuration */
+export interface SetupReturn<
+  TContext,
+  TEvent extends EventObject,
+  TActions extends Record<string, ActionFunction<TContext, TEvent>> = Record<
+    string,
+    ActionFunction<TContext, TEvent>
+  >,
+> {
+  /**
+   * Create a machine with the setup configuration
+   *
+   * Named actions must be declared in `actions`, with params matching the
+   * implementation.
+   */
   createMachine(
-    config: MachineConfig<TContext, TEvent>,
+    config: MachineConfig<
+      TContext,
+      TEvent,
+      NamedActionsFrom<TContext, TEvent, TActions>
+    >,
   ): Machine<TContext, TEvent>;
 }
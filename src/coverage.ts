@@ -0,0 +1,376 @@
+/**
+ * State and transition coverage
+ *
+ * A coverage collector creates actors that report, through inspection
+ * records, which state nodes they entered and which transitions they took.
+ * Coverage is collected per machine across every actor the collector created,
+ * so one collector can be shared by a whole test suite and report what its
+ * tests never reached.
+ *
+ * Transitions are identified by their source state node, their event
+ * descriptor (`"always"` for eventless transitions, `"after <delay>"` for
+ * delayed ones) and their position among the transitions for that event, so
+ * each guarded branch is covered separately. Only the machines given to the
+ * collector are tracked, not those of invoked or spawned actors.
+ *
+ * @example
+ * ```ts
+ * const coverage = createCoverage();
+ * const actor = coverage.createActor(machine);
+ * actor.start();
+ * actor.send({ type: "SUBMIT" });
+ *
+ * console.log(formatCoverageReport(coverage.report(machine)));
+ * ```
+ */
+
+import type {
+  ActorRef,
+  EventObject,
+  GuardDefinition,
+  GuardResult,
+  InspectionEvent,
+  Machine,
+  MachineConfig,
+  StateNodeConfig,
+  TransitionDefinition,
+} from "./core/types.ts";
+import { type ActorOptions, createActor } from "./core/actor.ts";
+import { stateValueToPaths } from "./core/stateValue.ts";
+import {
+  getCandidateDescriptors,
+  getStateNodeByPath,
+} from "./core/transition.ts";
+import { describeGuard } from "./mermaid.ts";
+
+/**
+ * Transition of a machine, as tracked for coverage
+ */
+export interface CoverageTransition {
+  /** Path of the source state node, empty for root-level transitions */
+  source: string[];
+  /** Event descriptor, `"always"` or `"after <delay>"` */
+  event: string;
+  /** Position among the transitions for the event, in evaluation order */
+  index: number;
+  /** Description of the guard, for guarded transitions */
+  guard?: string;
+}
+
+/**
+ * Coverage of a machine's state nodes and transitions
+ */
+export interface CoverageReport {
+  /** Paths of the state nodes entered */
+  coveredStates: string[][];
+  /** Paths of the state nodes never entered */
+  uncoveredStates: string[][];
+  /** Transitions taken */
+  coveredTransitions: CoverageTransition[];
+  /** Transitions never taken */
+  uncoveredTransitions: CoverageTransition[];
+}
+
+/**
+ * Collects coverage from the actors it creates
+ */
+export interface Coverage {
+  /** Create an actor whose states and transitions are tracked */
+  createActor<TContext, TEvent extends EventObject>(
+    machine: Machine<TContext, TEvent>,
+    options?: ActorOptions,
+  ): ActorRef<TContext, TEvent>;
+  /** Report the coverage of a machine collected so far */
+  report<TContext, TEvent extends EventObject>(
+    machine: Machine<TContext, TEvent>,
+  ): CoverageReport;
+  /** Forget the coverage collected so far */
+  reset(): void;
+}
+
+interface Branch {
+  source: string[];
+  event: string;
+  index: number;
+  // deno-lint-ignore no-explicit-any
+  guard?: GuardDefinition<any, any>;
+}
+
+interface MachineCoverage {
+  states: Set<string>;
+  transitions: Set<string>;
+}
+
+function toBranches(
+  source: string[],
+  event: string,
+  // deno-lint-ignore no-explicit-any
+  definition: TransitionDefinition<any, any> | undefined,
+): Branch[] {
+  if (!definition) return [];
+  const transitions = Array.isArray(definition) ? definition : [definition];
+  return transitions.map((transition, index) => ({
+    source,
+    event,
+    index,
+    guard: typeof transition === "string" ? undefined : transition.guard,
+  }));
+}
+
+/**
+ * Get every transition of a machine, state node by state node
+ */
+function getBranches<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+): Branch[] {
+  const branches: Branch[] = [];
+
+  const visit = (
+    // deno-lint-ignore no-explicit-any
+    node: StateNodeConfig<any, any> | MachineConfig<any, any>,
+    path: string[],
+  ) => {
+    for (const [descriptor, definition] of Object.entries(node.on ?? {})) {
+      branches.push(...toBranches(path, descriptor, definition));
+    }
+    if ("always" in node) {
+      branches.push(...toBranches(path, "always", node.always));
+    }
+    if ("after" in node) {
+      for (const [delay, definition] of Object.entries(node.after ?? {})) {
+        branches.push(...toBranches(path, `after ${delay}`, definition));
+      }
+    }
+    for (const [key, child] of Object.entries(node.states ?? {})) {
+      visit(child, [...path, key]);
+    }
+  };
+  visit(machine.config, []);
+
+  return branches;
+}
+
+/**
+ * Get the paths of every state node of a machine, except history states
+ */
+function getStatePaths<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+): string[][] {
+  const paths: string[][] = [];
+
+  const visit = (
+    // deno-lint-ignore no-explicit-any
+    states: Record<string, StateNodeConfig<any, any>> | undefined,
+    parentPath: string[],
+  ) => {
+    for (const [key, node] of Object.entries(states ?? {})) {
+      if (node.type === "history") continue;
+      const path = [...parentPath, key];
+      paths.push(path);
+      visit(node.states, path);
+    }
+  };
+  visit(machine.config.states, []);
+
+  return paths;
+}
+
+/**
+ * Get the transitions of a state node that match an event, in the order they
+ * are evaluated
+ */
+function getCandidateBranches<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  source: string[],
+  event: EventObject,
+): Branch[] {
+  const node = source.length > 0
+    ? getStateNodeByPath(machine, source)
+    : machine.config;
+  if (!node) return [];
+
+  const branches: Branch[] = [];
+  if ("always" in node) {
+    branches.push(...toBranches(source, "always", node.always));
+  }
+  for (const descriptor of getCandidateDescriptors(node.on ?? {}, event.type)) {
+    branches.push(
+      // deno-lint-ignore no-explicit-any
+      ...toBranches(source, descriptor, (node.on as any)[descriptor]),
+    );
+  }
+  if ("after" in node && node.after && event.type === "$delay") {
+    const delay = String((event as { key?: unknown }).key);
+    if (delay in node.after) {
+      branches.push(
+        ...toBranches(source, `after ${delay}`, node.after[delay]),
+      );
+    }
+  }
+  return branches;
+}
+
+/**
+ * Find the branch that was taken, given the guards evaluated to select it
+ *
+ * The branch taken is the first one whose preceding guarded branches all
+ * failed their guards; those results end the list of guards evaluated, which
+ * may start with guards of descendant state nodes.
+ */
+function findTakenBranch(
+  candidates: Branch[],
+  guards: GuardResult[],
+): Branch | undefined {
+  for (let i = 0; i < candidates.length; i++) {
+    const guarded = candidates.slice(0, i + 1).filter(({ guard }) => guard);
+    if (guarded.length > guards.length) return undefined;
+
+    const results = guards.slice(guards.length - guarded.length);
+    const taken = candidates[i];
+    const matches = guarded.every((branch, j) =>
+      results[j].guard === branch.guard &&
+      results[j].passed === (branch === taken)
+    );
+    if (matches) return taken;
+  }
+  return undefined;
+}
+
+function toKey({ source, event, index }: Branch): string {
+  return JSON.stringify([source, event, index]);
+}
+
+/**
+ * Create a coverage collector
+ */
+export function createCoverage(): Coverage {
+  const coverage = new Map<unknown, MachineCoverage>();
+
+  const getCoverage = <TContext, TEvent extends EventObject>(
+    machine: Machine<TContext, TEvent>,
+  ): MachineCoverage => {
+    // Machines created with provide() share their config, and their coverage
+    let machineCoverage = coverage.get(machine.config);
+    if (!machineCoverage) {
+      machineCoverage = { states: new Set(), transitions: new Set() };
+      coverage.set(machine.config, machineCoverage);
+    }
+    return machineCoverage;
+  };
+
+  return {
+    createActor<TContext, TEvent extends EventObject>(
+      machine: Machine<TContext, TEvent>,
+      options?: ActorOptions,
+    ): ActorRef<TContext, TEvent> {
+      const { states, transitions } = getCoverage(machine);
+      const enter = (path: string[]) => {
+        path.forEach((_, i) => states.add(path.slice(0, i + 1).join(".")));
+      };
+
+      const inspect = (record: InspectionEvent) => {
+        options?.inspect?.(record);
+        // Records about invoked and spawned actors are not for this machine
+        if (record.actorId !== actor.id) return;
+
+        if (record.type === "@ustate.snapshot") {
+          stateValueToPaths(record.snapshot.value).forEach(enter);
+        } else if (record.type === "@ustate.transition") {
+          // Eventless transitions pass through states no snapshot shows
+          enter(record.source);
+          record.targets.forEach(enter);
+
+          const taken = findTakenBranch(
+            getCandidateBranches(machine, record.source, record.event),
+            record.guards,
+          );
+          if (taken) {
+            transitions.add(toKey(taken));
+          }
+        }
+      };
+
+      const actor = createActor(machine, { ...options, inspect });
+      return actor;
+    },
+
+    report<TContext, TEvent extends EventObject>(
+      machine: Machine<TContext, TEvent>,
+    ): CoverageReport {
+      const { states, transitions } = getCoverage(machine);
+      const report: CoverageReport = {
+        coveredStates: [],
+        uncoveredStates: [],
+        coveredTransitions: [],
+        uncoveredTransitions: [],
+      };
+
+      for (const path of getStatePaths(machine)) {
+        if (states.has(path.join("."))) {
+          report.coveredStates.push(path);
+        } else {
+          report.uncoveredStates.push(path);
+        }
+      }
+
+      for (const branch of getBranches(machine)) {
+        const transition: CoverageTransition = {
+          source: branch.source,
+          event: branch.event,
+          index: branch.index,
+        };
+        if (branch.guard) {
+          transition.guard = describeGuard(branch.guard);
+        }
+        if (transitions.has(toKey(branch))) {
+          report.coveredTransitions.push(transition);
+        } else {
+          report.uncoveredTransitions.push(transition);
+        }
+      }
+
+      return report;
+    },
+
+    reset(): void {
+      coverage.clear();
+    },
+  };
+}
+
+/**
+ * Format a coverage report as text, listing what was not covered
+ *
+ * @example
+ * ```
+ * States: 4/5 covered
+ *   - expired
+ * Transitions: 5/7 covered
+ *   - payment: CANCEL
+ *   - cart: CHECKOUT (branch 2)
+ * ```
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+  const stateCount = report.coveredStates.length +
+    report.uncoveredStates.length;
+  const transitionCount = report.coveredTransitions.length +
+    report.uncoveredTransitions.length;
+
+  const describeTransition = (
+    { source, event, index, guard }: CoverageTransition,
+  ) => {
+    let label = `${source.join(".") || "(root)"}: ${event}`;
+    if (index > 0) label += ` (branch ${index + 1})`;
+    if (guard) label += ` [${guard}]`;
+    return label;
+  };
+
+  return [
+    `States: ${report.coveredStates.length}/${stateCount} covered`,
+    ...report.uncoveredStates.map((path) => `  - ${path.join(".")}`),
+    `Transitions: ${report.coveredTransitions.length}/${transitionCount} covered`,
+    ...report.uncoveredTransitions.map((transition) =>
+      `  - ${describeTransition(transition)}`
+    ),
+  ].join("\n");
+}
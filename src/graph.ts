@@ -0,0 +1,229 @@
+/**
+ * Model-based test paths
+ *
+ * Traverse a machine with the pure transition functions, which compute
+ * transitions the same way actors do, and return, for each reachable state,
+ * the events that lead to it from the initial state. The
+ * state space is bounded by the event samples tried in each state and by how
+ * states are serialized: states with the same serialization are the same
+ * graph node.
+ *
+ * `after` transitions are followed as `{ type: "$delay", key }` steps, meaning
+ * "let the timer with this delay fire". Actions are not executed, and
+ * machines that spawn actors cannot be traversed.
+ *
+ * @example
+ * ```ts
+ * const paths = getShortestPaths(machine, {
+ *   events: [{ type: "ADD_ITEM", sku: "A" }, { type: "CHECKOUT" }],
+ * });
+ * for (const path of paths) {
+ *   const actor = createActor(machine).start();
+ *   path.steps.forEach(({ event }) => actor.send(event));
+ * }
+ * ```
+ */
+
+import type { EventObject, Machine, StateSnapshot } from "./core/types.ts";
+import { stateValueToPaths } from "./core/stateValue.ts";
+import { getStateNodesInPath } from "./core/transition.ts";
+import { initialTransition, transition } from "./pure.ts";
+
+/**
+ * Options for traversing a machine
+ */
+export interface TraversalOptions<TContext, TEvent extends EventObject> {
+  /**
+   * Event samples to try in every state, or a function returning the samples
+   * to try in a given state
+   */
+  events: TEvent[] | ((state: StateSnapshot<TContext>) => TEvent[]);
+  /**
+   * Serialize context for telling states apart; contexts that only differ in
+   * irrelevant details should serialize the same (default: JSON.stringify)
+   */
+  serializeContext?: (context: TContext) => string;
+  /**
+   * Maximum number of states `getShortestPaths` visits, or of paths
+   * `getSimplePaths` lists, before giving up (default: 10000)
+   */
+  limit?: number;
+}
+
+/**
+ * Step of a path: an event and the state it leads to
+ */
+export interface PathStep<TContext, TEvent extends EventObject> {
+  event: TEvent;
+  state: StateSnapshot<TContext>;
+}
+
+/**
+ * Events leading from the initial state to `state`
+ */
+export interface StatePath<TContext, TEvent extends EventObject> {
+  /** State reached at the end of the path */
+  state: StateSnapshot<TContext>;
+  /** Steps taken from the initial state, in order */
+  steps: PathStep<TContext, TEvent>[];
+  /** Number of steps */
+  weight: number;
+}
+
+/**
+ * Create the function that identifies a state in the graph
+ */
+function createSerializer<TContext>(
+  serializeContext: (context: TContext) => string = JSON.stringify,
+): (state: StateSnapshot<TContext>) => string {
+  return (state) =>
+    `${JSON.stringify(state.value)} | ${serializeContext(state.context)}`;
+}
+
+/**
+ * Get the events to try in a state: the event samples and its delays
+ */
+function getNextEvents<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: StateSnapshot<TContext>,
+  options: TraversalOptions<TContext, TEvent>,
+): TEvent[] {
+  const events = typeof options.events === "function"
+    ? options.events(state)
+    : options.events;
+
+  const delayKeys = new Set<string>();
+  for (const path of stateValueToPaths(state.value)) {
+    for (const node of getStateNodesInPath(machine, path)) {
+      Object.keys(node.after ?? {}).forEach((key) => delayKeys.add(key));
+    }
+  }
+  const delays = [...delayKeys].map((key) =>
+    ({ type: "$delay", key }) as unknown as TEvent
+  );
+
+  return [...events, ...delays];
+}
+
+/**
+ * Get the states reachable in one step from a state, with their serialized
+ * keys, skipping events that leave it unchanged
+ */
+function getAdjacent<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: StateSnapshot<TContext>,
+  key: string,
+  serialize: (state: StateSnapshot<TContext>) => string,
+  options: TraversalOptions<TContext, TEvent>,
+): { key: string; step: PathStep<TContext, TEvent> }[] {
+  if (state.status !== "active") return [];
+
+  const adjacent: { key: string; step: PathStep<TContext, TEvent> }[] = [];
+  for (const event of getNextEvents(machine, state, options)) {
+    const [nextState] = transition(machine, state, event);
+    const nextKey = serialize(nextState);
+    if (nextKey !== key) {
+      adjacent.push({ key: nextKey, step: { event, state: nextState } });
+    }
+  }
+  return adjacent;
+}
+
+function checkLimit(count: number, limit = 10000, unit = "states"): void {
+  if (count > limit) {
+    throw new Error(`Traversal limit of ${limit} ${unit} exceeded`);
+  }
+}
+
+/**
+ * Get the shortest path to every reachable state
+ *
+ * States are visited breadth-first, so each path has the fewest steps
+ * possible; among equally short paths, the one using the earliest event
+ * samples wins.
+ */
+export function getShortestPaths<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  options: TraversalOptions<TContext, TEvent>,
+): StatePath<TContext, TEvent>[] {
+  const serialize = createSerializer(options.serializeContext);
+  const [initialState] = initialTransition(machine);
+
+  const initialKey = serialize(initialState);
+  const paths = new Map<string, StatePath<TContext, TEvent>>([
+    [initialKey, { state: initialState, steps: [], weight: 0 }],
+  ]);
+  const queue = [{ key: initialKey, path: paths.get(initialKey)! }];
+
+  while (queue.length > 0) {
+    const { key: pathKey, path } = queue.shift()!;
+    for (
+      const { key, step } of getAdjacent(
+        machine,
+        path.state,
+        pathKey,
+        serialize,
+        options,
+      )
+    ) {
+      if (paths.has(key)) continue;
+
+      const nextPath = {
+        state: step.state,
+        steps: [...path.steps, step],
+        weight: path.weight + 1,
+      };
+      paths.set(key, nextPath);
+      checkLimit(paths.size, options.limit);
+      queue.push({ key, path: nextPath });
+    }
+  }
+
+  return [...paths.values()];
+}
+
+/**
+ * Get every simple path, one that visits no state twice, to every reachable
+ * state
+ *
+ * Paths are listed depth-first. Their number can grow exponentially with
+ * the number of states, so keep the event samples small; `limit` bounds the
+ * number of paths listed.
+ */
+export function getSimplePaths<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  options: TraversalOptions<TContext, TEvent>,
+): StatePath<TContext, TEvent>[] {
+  const serialize = createSerializer(options.serializeContext);
+  const [initialState] = initialTransition(machine);
+  const paths: StatePath<TContext, TEvent>[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (
+    state: StateSnapshot<TContext>,
+    key: string,
+    steps: PathStep<TContext, TEvent>[],
+  ) => {
+    visiting.add(key);
+    paths.push({ state, steps, weight: steps.length });
+    checkLimit(paths.length, options.limit, "paths");
+
+    for (
+      const { key: nextKey, step } of getAdjacent(
+        machine,
+        state,
+        key,
+        serialize,
+        options,
+      )
+    ) {
+      if (!visiting.has(nextKey)) {
+        visit(step.state, nextKey, [...steps, step]);
+      }
+    }
+    visiting.delete(key);
+  };
+  visit(initialState, serialize(initialState), []);
+
+  return paths;
+}
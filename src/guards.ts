@@ -0,0 +1,54 @@
+/**
+ * Higher-order guards
+ *
+ * Compose guard functions and named guards (`"isAdmin"` or
+ * `{ type: "isAdmin", params }`) into a single guard.
+ *
+ * @example
+ * ```ts
+ * guard: and(["isAdmin", not("isLocked")])
+ * guard: or([stateIn("#player.playing"), { type: "hasCredits", params: { min: 1 } }])
+ * ```
+ */
+
+import type { EventObject, GuardDefinition } from "./core/types.ts";
+
+/**
+ * Create a guard that passes when all of the given guards pass
+ */
+export function and<TContext, TEvent extends EventObject>(
+  guards: GuardDefinition<TContext, TEvent>[],
+): GuardDefinition<TContext, TEvent> {
+  return { type: "$$and", guards };
+}
+
+/**
+ * Create a guard that passes when any of the given guards passes
+ */
+export function or<TContext, TEvent extends EventObject>(
+  guards: GuardDefinition<TContext, TEvent>[],
+): GuardDefinition<TContext, TEvent> {
+  return { type: "$$or", guards };
+}
+
+/**
+ * Create a guard that passes when the given guard fails
+ */
+export function not<TContext, TEvent extends EventObject>(
+  guard: GuardDefinition<TContext, TEvent>,
+): GuardDefinition<TContext, TEvent> {
+  return { type: "$$not", guard };
+}
+
+/**
+ * Create a guard that passes when a state is active
+ *
+ * The state is given as `"#id"` (optionally followed by a child path) or as
+ * an absolute path such as `"player.playing"`. Useful for coordinating
+ * parallel regions.
+ */
+export function stateIn<TContext, TEvent extends EventObject>(
+  stateId: string,
+): GuardDefinition<TContext, TEvent> {
+  return { type: "$$stateIn", stateId };
+}
@@ -1,8 +1,45 @@
 import type {
+  EventObject,
+  GuardDefinition,
   Machine,
   StateNodeConfig,
   TransitionDefinition,
 } from "./core/types.ts";
+import { getTransitionTargets, resolveTargetPath } from "./core/transition.ts";
+
+/**
+ * Describes a guard for a transition label, spelling out higher-order guards
+ */
+export function describeGuard(
+  guard: GuardDefinition<unknown, EventObject>,
+  nested = false,
+): string {
+  if (typeof guard === "function") return "cond";
+  if (typeof guard === "string") return guard;
+
+  switch (guard.type) {
+    case "$$and":
+    case "$$or": {
+      const operator = guard.type === "$$and" ? " && " : " || ";
+      const description =
+        (guard.guards as GuardDefinition<unknown, EventObject>[])
+          .map((g) => describeGuard(g, true))
+          .join(operator);
+      return nested ? `(${description})` : description;
+    }
+    case "$$not":
+      return `!${
+        describeGuard(
+          guard.guard as GuardDefinition<unknown, EventObject>,
+          true,
+        )
+      }`;
+    case "$$stateIn":
+      return `in ${guard.stateId}`;
+    default:
+      return guard.type;
+  }
+}
 
 /**
  * Sanitizes a string for use as a Mermaid identifier
@@ -53,9 +90,10 @@ export function toMermaid(machine: Machine<any, any>): string {
    * Resolves a target string to a Mermaid node ID
    */
   function resolveTarget(target: string, contextPath: string[]): string {
-    // 1. Handle absolute IDs
-    if (target.startsWith("#")) {
-      return sanitizeId(target.slice(1));
+    // 1. Handle state IDs and descendant targets the same way the runtime does
+    if (target.startsWith("#") || target.startsWith(".")) {
+      const resolved = resolveTargetPath(machine, target, contextPath);
+      return sanitizeId(resolved ? resolved.join(".") : target.slice(1));
     }
 
     // 2. Handle dot-notation paths (assume absolute if in map, or check relative?)
@@ -148,13 +186,19 @@ export function toMermaid(machine: Machine<any, any>): string {
     } else {
       // Atomic state
       lines.push(`  state "${label}" as ${id}`);
+
+      if (node.type === "final") {
+        lines.push(`  ${id} --> [*]`);
+      }
     }
 
     // Render Transitions
     if (node.on) {
       for (const [event, transition] of Object.entries(node.on)) {
         if (transition) {
-          processTransition(id, event, transition, node, path);
+          // The "*" wildcard handles any event
+          const eventLabel = event === "*" ? "(any)" : event;
+          processTransition(id, eventLabel, transition, node, path);
         }
       }
     }
@@ -198,19 +242,16 @@ export function toMermaid(machine: Machine<any, any>): string {
     const transitions = Array.isArray(transition) ? transition : [transition];
 
     transitions.forEach((t) => {
-      let target: string | undefined;
+      let targets: string[];
       let label = event;
 
       if (typeof t === "string") {
-        target = t;
+        targets = [t];
       } else {
-        target = t.target;
+        targets = getTransitionTargets(t);
         // Append guard info
         if (t.guard) {
-          const guardName = typeof t.guard === "function"
-            ? "cond"
-            : t.guard.type;
-          label += ` [${guardName}]`;
+          label += ` [${describeGuard(t.guard)}]`;
         }
         // Append action info (optional, can get cluttered)
         if (t.actions) {
@@ -222,9 +263,12 @@ export function toMermaid(machine: Machine<any, any>): string {
         }
       }
 
-      if (target) {
-        const targetId = resolveTarget(target, sourcePath);
-        lines.push(`  ${sourceId} --> ${targetId} : ${label}`);
+      if (targets.length > 0) {
+        // One edge per target for multi-target transitions
+        for (const target of targets) {
+          const targetId = resolveTarget(target, sourcePath);
+          lines.push(`  ${sourceId} --> ${targetId} : ${label}`);
+        }
       } else {
         // Self-transition or internal transition
         lines.push(`  ${sourceId} --> ${sourceId} : ${label}`);
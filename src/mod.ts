@@ -8,18 +8,28 @@
 export { createMachine } from "./core/machine.ts";
 export { createActor } from "./core/actor.ts";
 export { setup } from "./setup.ts";
+export { initialTransition, transition } from "./pure.ts";
+export { createRecorder, replay } from "./replay.ts";
 
 // Utilities
 export { waitFor } from "./utils.ts";
 export { toMermaid } from "./mermaid.ts";
+export { getShortestPaths, getSimplePaths } from "./graph.ts";
+export { createCoverage, formatCoverageReport } from "./coverage.ts";
 
 // Actions
 export { assign } from "./actions/assign.ts";
+export { cancel, enqueueActions, raise } from "./actions/index.ts";
+export { sendParent, sendTo } from "./actions/spawn.ts";
+
+// Guards
+export { and, not, or, stateIn } from "./guards.ts";
 
 // System services (for testing and deterministic replay)
 export {
   createCounterServices,
   createDeterministicServices,
+  createSimulatedClock,
   defaultServices,
   getServices,
   resetServices,
@@ -27,7 +37,11 @@ export {
   withServices,
   withServicesAsync,
 } from "./core/services.ts";
-export type { SystemServices } from "./core/services.ts";
+export type {
+  SimulatedClock,
+  SystemServices,
+  TimerHandle,
+} from "./core/services.ts";
 
 // Actor logic
 export { fromCallback, fromPromise } from "./actors/logic.ts";
@@ -36,14 +50,41 @@ export { fromCallback, fromPromise } from "./actors/logic.ts";
 export type {
   ActionFunction,
   ActorRef,
+  ActorStatus,
+  ActorSystem,
   EventObject,
+  ExecutableAction,
+  ExecutedAction,
+  GuardDefinition,
   GuardFunction,
+  GuardResult,
+  InspectionEvent,
   Machine,
   MachineConfig,
+  NamedAction,
   Observer,
+  PersistedChildSnapshot,
+  PersistedScheduledEvent,
+  PersistedSnapshot,
+  SelectedTransition,
   StateNodeConfig,
   StateSnapshot,
   Subscription,
+  SystemActorRef,
   TransitionConfig,
 } from "./core/types.ts";
+export type { TransitionSnapshot } from "./pure.ts";
+export type { PathStep, StatePath, TraversalOptions } from "./graph.ts";
+export type {
+  Coverage,
+  CoverageReport,
+  CoverageTransition,
+} from "./coverage.ts";
+export type {
+  JournalEntry,
+  JournalSnapshot,
+  Recorder,
+  ReplayDivergence,
+  ReplayResult,
+} from "./replay.ts";
 export type { WaitForOptions } from "./utils.ts";
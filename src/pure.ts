@@ -0,0 +1,265 @@
+/**
+ * Pure transition functions
+ *
+ * Compute the snapshot an actor would move to, and the actions it would run,
+ * without running side effects: custom actions are returned rather than
+ * executed, no timers are started and no actors are invoked or spawned.
+ * Spawning returns a placeholder ref and a `"$$spawn"` action.
+ * `assign` is applied to a copy of the context, and raised events and
+ * eventless transitions are processed as part of the macrostep.
+ *
+ * @example
+ * ```ts
+ * const [initial] = initialTransition(machine);
+ * const [next, actions] = transition(machine, initial, { type: "SUBMIT" });
+ * actions.forEach((action) => action.exec?.());
+ * ```
+ */
+
+import type { SpawnedActorRef, SpawnOptions } from "./actions/spawn.ts";
+import type {
+  ActorLogic,
+  EventObject,
+  ExecutableAction,
+  Machine,
+  StateSnapshot,
+} from "./core/types.ts";
+import { cloneContext } from "./core/clone.ts";
+import { createStateSnapshot } from "./core/state.ts";
+import { stateValueToPaths } from "./core/stateValue.ts";
+import {
+  executeActions,
+  getDoneStateEvents,
+  getInitialStateValue,
+  getStateNodesInPath,
+  isEventEnabled,
+  type MacrostepOptions,
+  type MacrostepState,
+  runMacrostep,
+  settleMacrostep,
+} from "./core/transition.ts";
+
+/**
+ * Snapshot accepted by `transition`: an actor snapshot, a snapshot returned
+ * by the pure functions or a persisted snapshot
+ */
+export type TransitionSnapshot<TContext> = Pick<
+  StateSnapshot<TContext>,
+  "value" | "context" | "status" | "output" | "error" | "historyValue"
+>;
+
+interface PureMacrostepState<TContext> extends MacrostepState<TContext> {
+  output?: unknown;
+}
+
+/**
+ * Spawn function that records a `"$$spawn"` action instead of starting the
+ * actor, and returns a placeholder ref for it
+ *
+ * Actors spawned without an ID are numbered in the order they are spawned
+ * within the transition, so the same transition yields the same IDs.
+ */
+function createPureSpawn(
+  actions: ExecutableAction[],
+): (
+  logic: ActorLogic<unknown, unknown, EventObject> | string,
+  options?: SpawnOptions,
+) => SpawnedActorRef {
+  return (logic, options = {}) => {
+    const spawned = actions.filter((action) => action.type === "$$spawn");
+    const id = options.id ?? `spawned-${spawned.length}`;
+    const actorRef: SpawnedActorRef = {
+      id,
+      systemId: options.systemId,
+      src: typeof logic === "string" ? logic : undefined,
+      send: () => {},
+      stop: () => {},
+      getSnapshot: () =>
+        createStateSnapshot("", undefined, () => false, {
+          status: "stopped",
+        }),
+    };
+    actions.push({
+      type: "$$spawn",
+      id,
+      systemId: options.systemId,
+      src: logic,
+      input: options.input,
+      actorRef,
+    });
+    return actorRef;
+  };
+}
+
+/**
+ * Compute the initial snapshot of a machine and the actions its entry would
+ * run
+ */
+export function initialTransition<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+): [StateSnapshot<TContext>, ExecutableAction[]] {
+  const initialContext = machine.config.context;
+  let context: TContext;
+  if (typeof initialContext === "function") {
+    context = (initialContext as () => TContext)();
+  } else if (initialContext !== undefined) {
+    context = cloneContext(initialContext);
+  } else {
+    context = {} as TContext;
+  }
+
+  const initEvent = { type: "$init" } as TEvent;
+  const value = getInitialStateValue(machine);
+  const paths = stateValueToPaths(value);
+  const actions: ExecutableAction[] = [];
+  const internalQueue: EventObject[] = [];
+
+  for (const path of paths) {
+    for (const node of getStateNodesInPath(machine, path)) {
+      if (node.entry) {
+        collectEffects(
+          executeActions(
+            node.entry,
+            { context, event: initEvent, spawn: createPureSpawn(actions) },
+            machine.implementations,
+            undefined,
+            true,
+            machine,
+            value,
+          ),
+          actions,
+          internalQueue,
+        );
+      }
+    }
+  }
+
+  internalQueue.push(
+    ...getDoneStateEvents(
+      machine,
+      paths.flatMap((path) => path.map((_, i) => path.slice(0, i + 1))),
+      value,
+    ),
+  );
+
+  const state: PureMacrostepState<TContext> = {
+    value,
+    context,
+    historyValue: {},
+    done: false,
+  };
+  settleMacrostep(
+    machine,
+    state,
+    initEvent,
+    createMacrostepOptions(machine, state, actions, internalQueue),
+  );
+
+  return [toSnapshot(machine, state), actions];
+}
+
+/**
+ * Compute the snapshot a machine moves to when it receives an event in the
+ * given snapshot, and the actions it would run
+ *
+ * Snapshots that are no longer active are returned unchanged.
+ */
+export function transition<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  snapshot: TransitionSnapshot<TContext>,
+  event: TEvent,
+): [StateSnapshot<TContext>, ExecutableAction[]] {
+  const state: PureMacrostepState<TContext> = {
+    value: cloneContext(snapshot.value),
+    context: cloneContext(snapshot.context),
+    historyValue: cloneContext(snapshot.historyValue ?? {}),
+    done: false,
+  };
+
+  if (snapshot.status !== "active") {
+    return [
+      createStateSnapshot(state.value, state.context, () => false, {
+        status: snapshot.status,
+        output: snapshot.output,
+        error: snapshot.error,
+        historyValue: state.historyValue,
+      }, machine),
+      [],
+    ];
+  }
+
+  const actions: ExecutableAction[] = [];
+  const internalQueue: EventObject[] = [];
+  runMacrostep(
+    machine,
+    state,
+    event,
+    createMacrostepOptions(machine, state, actions, internalQueue),
+  );
+
+  return [toSnapshot(machine, state), actions];
+}
+
+/**
+ * Collect the actions of a macrostep instead of executing them, and the
+ * output of the machine once it is done
+ */
+function createMacrostepOptions<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: PureMacrostepState<TContext>,
+  actions: ExecutableAction[],
+  internalQueue: EventObject[],
+): MacrostepOptions<TContext, TEvent> {
+  return {
+    internalQueue,
+    spawn: createPureSpawn(actions),
+    deferActions: true,
+    onMicrostep: (result) => {
+      collectEffects(result.effects ?? [], actions, internalQueue);
+    },
+    onDone: (event) => {
+      if (machine.config.output) {
+        state.output = machine.config.output({ context: state.context, event });
+      }
+    },
+  };
+}
+
+/**
+ * Queue undelayed raised events and return every other effect as an action
+ */
+function collectEffects(
+  effects: unknown[],
+  actions: ExecutableAction[],
+  internalQueue: EventObject[],
+): void {
+  for (const effect of effects) {
+    if (!effect || typeof effect !== "object") continue;
+    const e = effect as ExecutableAction;
+    if (e.type === "$$raise" && e.delay === undefined) {
+      internalQueue.push(e.event as EventObject);
+    } else {
+      actions.push(e);
+    }
+  }
+}
+
+function toSnapshot<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  state: PureMacrostepState<TContext>,
+): StateSnapshot<TContext> {
+  const { value, context, done } = state;
+  return createStateSnapshot(
+    value,
+    context,
+    (event) =>
+      !done &&
+      isEventEnabled(machine, value, cloneContext(context), event as TEvent),
+    {
+      status: done ? "done" : "active",
+      output: state.output,
+      historyValue: state.historyValue,
+    },
+    machine,
+  );
+}
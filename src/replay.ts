@@ -0,0 +1,382 @@
+/**
+ * Event journal recording and deterministic replay
+ *
+ * A recorder logs what an actor receives from the outside (events, IDs and
+ * timestamps from its services, timer firings, events from the promise and
+ * callback actors it invokes or spawns) together with the snapshots it
+ * produces. Replaying the journal runs the same machine against the recorded
+ * inputs and reports the first point where it behaves differently.
+ *
+ * Promise and callback actors do not run during a replay: the events they
+ * sent are replayed from the journal. Invoked and spawned machines run again,
+ * with the same services, but promise and callback actors of their own are
+ * not recorded.
+ *
+ * @example
+ * ```ts
+ * const recorder = createRecorder();
+ * const actor = recorder.record(
+ *   createActor(machine, {
+ *     services: recorder.services,
+ *     onChildEvent: recorder.onChildEvent,
+ *   }),
+ * );
+ * actor.start();
+ * actor.send({ type: "SUBMIT" });
+ *
+ * const journal = JSON.parse(JSON.stringify(recorder.journal));
+ * const { divergence } = replay(machine, journal);
+ * ```
+ */
+
+import type {
+  ActorRef,
+  ActorStatus,
+  EventObject,
+  Machine,
+  StateSnapshot,
+  StateValue,
+} from "./core/types.ts";
+import { createActor } from "./core/actor.ts";
+import {
+  getServices,
+  startTimer,
+  stopTimer,
+  type SystemServices,
+  type TimerHandle,
+} from "./core/services.ts";
+
+/**
+ * JSON-safe view of a snapshot, with actor references replaced by
+ * `{ $$actorRef: id }`
+ */
+export interface JournalSnapshot {
+  value: StateValue;
+  context: unknown;
+  status: ActorStatus;
+  output?: unknown;
+}
+
+/**
+ * Entry of an actor's journal
+ *
+ * - `start` / `stop`: the actor was started or stopped
+ * - `event`: an event was sent to the actor
+ * - `childEvent`: a promise or callback actor sent an event to the actor
+ * - `generateId` / `now`: a service call and its result
+ * - `timer`: the timer with the given sequence number fired; timers are
+ *   numbered in the order they were scheduled
+ * - `snapshot`: the actor produced a snapshot
+ */
+export type JournalEntry =
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "event"; event: EventObject }
+  | { type: "childEvent"; childId: string; event: EventObject }
+  | { type: "generateId"; prefix?: string; result: string }
+  | { type: "now"; result: number }
+  | { type: "timer"; timer: number }
+  | { type: "snapshot"; snapshot: JournalSnapshot };
+
+/**
+ * Records the journal of an actor
+ */
+export interface Recorder {
+  /** Services to create the recorded actor with */
+  services: SystemServices;
+  /** `onChildEvent` option to create the recorded actor with */
+  onChildEvent: (event: EventObject, childId: string) => void;
+  /** Entries recorded so far, in order */
+  journal: JournalEntry[];
+  /**
+   * Record an actor created with `services` and `onChildEvent`, before it is
+   * started
+   *
+   * Only events sent, and start/stop calls made, through the returned actor
+   * are recorded.
+   */
+  record<TContext, TEvent extends EventObject>(
+    actor: ActorRef<TContext, TEvent>,
+  ): ActorRef<TContext, TEvent>;
+}
+
+/**
+ * First difference between a replay and its journal
+ */
+export interface ReplayDivergence {
+  /** Index of the first journal entry that was not reproduced */
+  index: number;
+  /** The journal entry, undefined when the replay went past the journal */
+  expected?: JournalEntry;
+  /**
+   * What the replay did instead; undefined when it did nothing, such as
+   * when a recorded timer was never scheduled
+   */
+  actual?: JournalEntry;
+}
+
+/**
+ * Result of replaying a journal
+ */
+export interface ReplayResult {
+  /** Snapshots produced by the replay, in order */
+  snapshots: JournalSnapshot[];
+  /** First difference from the journal; undefined when it was reproduced */
+  divergence?: ReplayDivergence;
+}
+
+function isActorRef(value: unknown): value is { id: string } {
+  // deno-lint-ignore no-explicit-any
+  const ref = value as any;
+  return typeof ref?.id === "string" && typeof ref.send === "function";
+}
+
+/**
+ * Convert a value into plain JSON data, replacing actor references
+ */
+function toJson<T>(value: T): T {
+  if (value === undefined) return value;
+  return JSON.parse(
+    JSON.stringify(
+      value,
+      (_, item) => isActorRef(item) ? { $$actorRef: item.id } : item,
+    ),
+  );
+}
+
+function toJournalSnapshot(snapshot: StateSnapshot<unknown>): JournalSnapshot {
+  return toJson({
+    value: snapshot.value,
+    context: snapshot.context,
+    status: snapshot.status,
+    output: snapshot.output,
+  });
+}
+
+/**
+ * Check whether a journal entry is an event for the replay to send
+ */
+function isEventEntry(
+  entry: JournalEntry | undefined,
+): entry is Extract<JournalEntry, { event: EventObject }> {
+  return entry?.type === "event" || entry?.type === "childEvent";
+}
+
+/**
+ * Check whether the replay reproduced a journal entry
+ *
+ * Service results come from the journal, so only the calls have to match.
+ */
+function isReproduced(
+  expected: JournalEntry | undefined,
+  actual: JournalEntry,
+): boolean {
+  if (expected?.type !== actual.type) return false;
+  if (actual.type === "now") return true;
+  if (actual.type === "generateId") {
+    return (expected as typeof actual).prefix === actual.prefix;
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+/**
+ * Create a recorder whose services wrap the given services
+ *
+ * @param services - Services providing IDs, time and timers (default: the
+ *   global services)
+ */
+export function createRecorder(
+  services: SystemServices = getServices(),
+): Recorder {
+  const journal: JournalEntry[] = [];
+  let nextTimer = 1;
+
+  const recordingServices: SystemServices = {
+    generateId(prefix?: string): string {
+      const result = services.generateId(prefix);
+      journal.push({ type: "generateId", prefix, result });
+      return result;
+    },
+
+    now(): number {
+      const result = services.now();
+      journal.push({ type: "now", result });
+      return result;
+    },
+
+    setTimeout(callback: () => void, ms: number): TimerHandle {
+      const timer = nextTimer++;
+      const fire = () => {
+        journal.push({ type: "timer", timer });
+        callback();
+      };
+      return startTimer(services, fire, ms);
+    },
+
+    clearTimeout(handle: TimerHandle): void {
+      stopTimer(services, handle);
+    },
+
+    dispose(): void {
+      services.dispose?.();
+    },
+  };
+
+  return {
+    services: recordingServices,
+    journal,
+
+    onChildEvent(event: EventObject, childId: string): void {
+      journal.push({ type: "childEvent", childId, event: toJson(event) });
+    },
+
+    record<TContext, TEvent extends EventObject>(
+      actor: ActorRef<TContext, TEvent>,
+    ): ActorRef<TContext, TEvent> {
+      actor.subscribe((snapshot) => {
+        journal.push({
+          type: "snapshot",
+          snapshot: toJournalSnapshot(snapshot),
+        });
+      });
+
+      const recorded: ActorRef<TContext, TEvent> = {
+        ...actor,
+        start() {
+          journal.push({ type: "start" });
+          actor.start();
+          return recorded;
+        },
+        send(event: TEvent) {
+          journal.push({ type: "event", event: toJson(event) });
+          actor.send(event);
+        },
+        stop() {
+          journal.push({ type: "stop" });
+          actor.stop();
+        },
+      };
+      return recorded;
+    },
+  };
+}
+
+/**
+ * Replay a journal against a machine
+ *
+ * Recorded events, including those of promise and callback actors, are sent,
+ * recorded service results returned and recorded timers fired in journal
+ * order, while the snapshots produced are compared with the recorded ones.
+ * The replay ends at the first divergence.
+ *
+ * @param machine - The machine the journal was recorded with
+ * @param journal - Recorded journal, possibly read back from JSON
+ * @param services - Services answering calls after a divergence (default:
+ *   the global services)
+ */
+export function replay<TContext, TEvent extends EventObject>(
+  machine: Machine<TContext, TEvent>,
+  journal: JournalEntry[],
+  services: SystemServices = getServices(),
+): ReplayResult {
+  const snapshots: JournalSnapshot[] = [];
+  const timers = new Map<number, () => void>();
+  let nextTimer = 1;
+  let cursor = 0;
+  let divergence: ReplayDivergence | undefined;
+  let started = false;
+  let ended = false;
+
+  /**
+   * Match something the replay did against the next journal entry
+   *
+   * Events recorded while the actor was busy (sent from an observer or a
+   * child actor, for example) are sent when the replay reaches them.
+   */
+  function reproduce(actual: JournalEntry): boolean {
+    if (divergence || ended) return false;
+    while (isEventEntry(journal[cursor])) {
+      const entry = journal[cursor++] as { event: EventObject };
+      actor.send(entry.event as TEvent);
+      if (divergence) return false;
+    }
+
+    const expected = journal[cursor];
+    if (isReproduced(expected, actual)) {
+      cursor++;
+      return true;
+    }
+    divergence = { index: cursor, expected, actual };
+    return false;
+  }
+
+  const replayServices: SystemServices = {
+    generateId(prefix?: string): string {
+      const result = services.generateId(prefix);
+      if (reproduce({ type: "generateId", prefix, result })) {
+        return (journal[cursor - 1] as { result: string }).result;
+      }
+      return result;
+    },
+
+    now(): number {
+      const result = services.now();
+      if (reproduce({ type: "now", result })) {
+        return (journal[cursor - 1] as { result: number }).result;
+      }
+      return result;
+    },
+
+    setTimeout(callback: () => void): TimerHandle {
+      const timer = nextTimer++;
+      timers.set(timer, callback);
+      return timer;
+    },
+
+    clearTimeout(handle: TimerHandle): void {
+      timers.delete(handle as number);
+    },
+  };
+
+  const actor = createActor(machine, {
+    services: replayServices,
+    stubChildren: true,
+  });
+  actor.subscribe((snapshot) => {
+    const entry = { type: "snapshot", snapshot: toJournalSnapshot(snapshot) };
+    if (ended) return;
+    snapshots.push(entry.snapshot);
+    reproduce(entry as JournalEntry);
+  });
+
+  while (!divergence && cursor < journal.length) {
+    const entry = journal[cursor];
+    if (entry.type === "start") {
+      cursor++;
+      started = true;
+      actor.start();
+    } else if (entry.type === "stop") {
+      cursor++;
+      started = false;
+      actor.stop();
+    } else if (isEventEntry(entry)) {
+      cursor++;
+      actor.send(entry.event as TEvent);
+    } else if (entry.type === "timer" && timers.has(entry.timer)) {
+      cursor++;
+      const callback = timers.get(entry.timer)!;
+      timers.delete(entry.timer);
+      callback();
+    } else {
+      // A recorded call, snapshot or timer that the replay did not produce
+      divergence = { index: cursor, expected: entry };
+    }
+  }
+
+  ended = true;
+  if (started) {
+    actor.stop();
+  }
+
+  return { snapshots, divergence };
+}
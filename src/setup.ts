@@ -3,6 +3,7 @@
  */
 
 import type {
+  ActionFunction,
   EventObject,
   Machine,
   MachineConfig,
@@ -22,10 +23,14 @@ import { createMachine } from "./core/machine.ts";
  *     events: {} as { type: 'INC' } | { type: 'DEC' }
  *   },
  *   actions: {
- *     logCount: ({ context }) => console.log(context.count)
+ *     logCount: ({ context }) => console.log(context.count),
+ *     track: (_, params: { name: string }) => analytics.track(params.name)
  *   },
  *   guards: {
  *     isPositive: ({ context }) => context.count > 0
+ *   },
+ *   actors: {
+ *     fetchCount: fromPromise(() => fetch('/count').then((r) => r.json()))
  *   }
  * });
  *
@@ -34,7 +39,10 @@ import { createMachine } from "./core/machine.ts";
  *   context: { count: 0 },
  *   states: {
  *     active: {
- *       entry: { type: 'logCount' },
+ *       entry: [
+ *         { type: 'logCount' },
+ *         { type: 'track', params: { name: 'active' } }
+ *       ],
  *       on: {
  *         INC: {
  *           actions: assign({ count: ({ context }) => context.count + 1 })
@@ -45,16 +53,22 @@ import { createMachine } from "./core/machine.ts";
  * });
  * ```
  */
-export function setup<TContext, TEvent extends EventObject>(
-  config?: SetupConfig<TContext, TEvent>,
-): SetupReturn<TContext, TEvent> {
+export function setup<
+  TContext,
+  TEvent extends EventObject,
+  TActions extends Record<string, ActionFunction<TContext, TEvent>> = Record<
+    string,
+    ActionFunction<TContext, TEvent>
+  >,
+>(
+  config?: SetupConfig<TContext, TEvent, TActions>,
+): SetupReturn<TContext, TEvent, TActions> {
   return {
-    createMachine(
-      machineConfig: MachineConfig<TContext, TEvent>,
-    ): Machine<TContext, TEvent> {
-      return createMachine(machineConfig, {
+    createMachine(machineConfig): Machine<TContext, TEvent> {
+      return createMachine(machineConfig as MachineConfig<TContext, TEvent>, {
         actions: config?.actions,
         guards: config?.guards,
+        actors: config?.actors,
       });
     },
   };
@@ -15,6 +15,9 @@ export interface WaitForOptions {
 /**
  * Wait for an actor to reach a specific state
  *
+ * Rejects if the actor ends up in the `"error"` or `"stopped"` status before
+ * the predicate is satisfied, or when the timeout expires.
+ *
  * @example
  * ```ts
  * await waitFor(actor, (state) => state.matches('success'));
@@ -34,6 +37,11 @@ export function waitFor<TContext, TEvent extends EventObject>(
       resolve(currentState);
       return;
     }
+    const endError = getEndError(currentState);
+    if (endError) {
+      reject(endError);
+      return;
+    }
 
     // deno-lint-ignore prefer-const
     let subscription: { unsubscribe(): void } | undefined;
@@ -61,6 +69,12 @@ export function waitFor<TContext, TEvent extends EventObject>(
         if (predicate(state)) {
           cleanup();
           resolve(state);
+          return;
+        }
+        const endError = getEndError(state);
+        if (endError) {
+          cleanup();
+          reject(endError);
         }
       } catch (error) {
         cleanup();
@@ -69,3 +83,17 @@ export function waitFor<TContext, TEvent extends EventObject>(
     });
   });
 }
+
+/**
+ * Get the rejection reason for a snapshot of an actor that can no longer
+ * change, if any
+ */
+function getEndError<TContext>(state: StateSnapshot<TContext>): unknown {
+  if (state.status === "error") {
+    return state.error ?? new Error("waitFor: actor errored");
+  }
+  if (state.status === "stopped") {
+    return new Error("waitFor: actor stopped before the predicate was met");
+  }
+  return undefined;
+}
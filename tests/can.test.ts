@@ -0,0 +1,148 @@
+import { assertEquals } from "@std/assert";
+import { createActor, createMachine, setup } from "../src/mod.ts";
+
+const createFormMachine = () =>
+  setup({
+    types: {
+      context: {} as { valid: boolean; submitted: number },
+      events: {} as
+        | { type: "SUBMIT" }
+        | { type: "VALIDATE" }
+        | { type: "RESET" }
+        | { type: "DRAFT" },
+    },
+    guards: {
+      isValid: ({ context }) => context.valid,
+    },
+  }).createMachine({
+    initial: "editing",
+    context: { valid: false, submitted: 0 },
+    on: { RESET: { target: ".editing" } },
+    states: {
+      editing: {
+        on: {
+          SUBMIT: {
+            target: "submitted",
+            guard: "isValid",
+            actions: ({ context }) => {
+              context.submitted++;
+            },
+          },
+          VALIDATE: {
+            actions: ({ context }) => {
+              context.valid = true;
+            },
+          },
+        },
+      },
+      submitted: {},
+    },
+  });
+
+Deno.test("Can: evaluates guards against the current context", () => {
+  const actor = createActor(createFormMachine());
+  actor.start();
+
+  assertEquals(actor.getSnapshot().can({ type: "SUBMIT" }), false);
+
+  actor.send({ type: "VALIDATE" });
+  assertEquals(actor.getSnapshot().can({ type: "SUBMIT" }), true);
+});
+
+Deno.test("Can: runs no actions and leaves the actor unchanged", () => {
+  const actor = createActor(createFormMachine());
+  actor.start();
+  actor.send({ type: "VALIDATE" });
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.can({ type: "SUBMIT" }), true);
+  assertEquals(snapshot.can({ type: "VALIDATE" }), true);
+
+  assertEquals(actor.getSnapshot().value, "editing");
+  assertEquals(actor.getSnapshot().context, { valid: true, submitted: 0 });
+});
+
+Deno.test("Can: considers wildcard handlers and always transitions", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: { "mouse.*": { target: "tracking" } },
+        always: {
+          target: "escaped",
+          guard: ({ event }) => event.type === "ESCAPE",
+        },
+      },
+      tracking: {},
+      escaped: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  const snapshot = actor.getSnapshot();
+
+  assertEquals(snapshot.can({ type: "mouse.move" }), true);
+  assertEquals(snapshot.can({ type: "ESCAPE" }), true);
+  assertEquals(snapshot.can({ type: "key.down" }), false);
+});
+
+Deno.test("Can: is false once the actor is no longer active", () => {
+  const actor = createActor(createFormMachine());
+  actor.start();
+  actor.stop();
+
+  assertEquals(actor.getSnapshot().can({ type: "VALIDATE" }), false);
+});
+
+Deno.test("Can: nextEvents lists event types with an enabled transition", () => {
+  const actor = createActor(createFormMachine());
+  actor.start();
+
+  assertEquals(actor.getSnapshot().nextEvents, ["VALIDATE", "RESET"]);
+
+  actor.send({ type: "VALIDATE" });
+  assertEquals(actor.getSnapshot().nextEvents, [
+    "SUBMIT",
+    "VALIDATE",
+    "RESET",
+  ]);
+
+  actor.send({ type: "SUBMIT" });
+  assertEquals(actor.getSnapshot().nextEvents, ["RESET"]);
+});
+
+Deno.test("Can: nextEvents evaluates guards without event payload", () => {
+  const machine = setup({
+    types: {
+      events: {} as
+        | { type: "PAY"; card: { valid: boolean } }
+        | { type: "TIP"; amount?: number }
+        | { type: "CANCEL" },
+    },
+  }).createMachine({
+    initial: "checkout",
+    states: {
+      checkout: {
+        on: {
+          // Throws without a payload, so the event may be enabled
+          PAY: {
+            guard: ({ event }) =>
+              (event as { card: { valid: boolean } }).card.valid,
+          },
+          // Returns false without a payload, so the event is not listed
+          TIP: {
+            guard: ({ event }) =>
+              ((event as { amount?: number }).amount ?? 0) > 0,
+          },
+          CANCEL: {},
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  assertEquals(actor.getSnapshot().nextEvents, ["PAY", "CANCEL"]);
+});
@@ -15,7 +15,9 @@ import { assertEquals, assertExists } from "@std/assert";
 import { Prng } from "@nullstyle/urand";
 import {
   assign as uAssign,
+  type Coverage,
   createActor as createUActor,
+  createCoverage,
   createMachine as createUMachine,
 } from "../../src/mod.ts";
 
@@ -326,12 +328,15 @@ function fuzzMachine<TContext, TEvent extends { type: string }>(
     seed?: number;
     eventCount?: number;
     runs?: number;
+    /** Collect state and transition coverage of the runs */
+    coverage?: Coverage;
   } = {},
 ): FuzzResult[] {
   const {
     seed = Date.now(),
     eventCount = 50,
     runs = 10,
+    coverage,
   } = options;
 
   const results: FuzzResult[] = [];
@@ -349,7 +354,9 @@ function fuzzMachine<TContext, TEvent extends { type: string }>(
 
     try {
       const machine = createMachine();
-      const actor = createUActor(machine);
+      const actor = coverage
+        ? coverage.createActor(machine)
+        : createUActor(machine);
       actor.start();
 
       stateHistory.push(actor.getSnapshot().value);
@@ -599,6 +606,27 @@ Deno.test("Fuzz: Guarded machine with random attempts", () => {
   assertEquals(validation.passed, true, validation.failures.join("\n"));
 });
 
+Deno.test("Fuzz: Random events cover the guarded machine", () => {
+  const events = [
+    { type: "TRY" },
+    { type: "SUCCESS" },
+    { type: "FAIL" },
+    { type: "RESET" },
+  ];
+  const coverage = createCoverage();
+  const machine = createGuardedMachine();
+
+  fuzzMachine(
+    () => machine,
+    (rng) => events[Math.floor(rng.next() * events.length)],
+    { runs: 20, eventCount: 100, seed: 77777, coverage },
+  );
+
+  const report = coverage.report(machine);
+  assertEquals(report.uncoveredStates, []);
+  assertEquals(report.uncoveredTransitions, []);
+});
+
 Deno.test("Fuzz: No crashes on rapid state changes", () => {
   const machine = createUMachine({
     id: "rapid",
@@ -0,0 +1,187 @@
+import { assertEquals } from "@std/assert";
+import {
+  createCoverage,
+  createMachine,
+  createSimulatedClock,
+  formatCoverageReport,
+  setup,
+} from "../src/mod.ts";
+
+const checkoutMachine = setup({
+  types: {
+    context: {} as { items: number },
+    events: {} as
+      | { type: "ADD_ITEM" }
+      | { type: "CHECKOUT" }
+      | { type: "PAY" }
+      | { type: "CANCEL" },
+  },
+  guards: { hasItems: ({ context }) => context.items > 0 },
+}).createMachine({
+  initial: "cart",
+  context: { items: 0 },
+  states: {
+    cart: {
+      on: {
+        ADD_ITEM: { actions: ({ context }) => context.items++ },
+        CHECKOUT: [
+          { target: "payment", guard: "hasItems" },
+          { target: "empty" },
+        ],
+      },
+    },
+    empty: { always: { target: "cart" } },
+    payment: {
+      initial: "card",
+      states: { card: {}, wallet: {} },
+      on: { PAY: { target: "paid" }, CANCEL: { target: "cart" } },
+      after: { 60000: { target: "expired" } },
+    },
+    paid: { type: "final" },
+    expired: {},
+  },
+});
+
+const label = (
+  transition: { source: string[]; event: string; index: number },
+) => `${transition.source.join(".")}: ${transition.event} #${transition.index}`;
+
+Deno.test("Coverage: states entered and transitions taken are tracked", () => {
+  const coverage = createCoverage();
+  const actor = coverage.createActor(checkoutMachine);
+  actor.start();
+  actor.send({ type: "CHECKOUT" });
+  actor.stop();
+
+  const report = coverage.report(checkoutMachine);
+  // The empty state is left by its eventless transition in the same macrostep
+  assertEquals(report.coveredStates, [["cart"], ["empty"]]);
+  assertEquals(report.uncoveredStates, [
+    ["payment"],
+    ["payment", "card"],
+    ["payment", "wallet"],
+    ["paid"],
+    ["expired"],
+  ]);
+  assertEquals(report.coveredTransitions.map(label), [
+    "cart: CHECKOUT #1",
+    "empty: always #0",
+  ]);
+  assertEquals(report.uncoveredTransitions.map(label), [
+    "cart: ADD_ITEM #0",
+    "cart: CHECKOUT #0",
+    "payment: PAY #0",
+    "payment: CANCEL #0",
+    "payment: after 60000 #0",
+  ]);
+});
+
+Deno.test("Coverage: guard branches and delayed transitions are covered separately", () => {
+  const clock = createSimulatedClock();
+  const coverage = createCoverage();
+
+  const actor = coverage.createActor(checkoutMachine, { services: clock });
+  actor.start();
+  actor.send({ type: "ADD_ITEM" });
+  actor.send({ type: "CHECKOUT" });
+  clock.advance(60000);
+  assertEquals(actor.getSnapshot().value, "expired");
+  actor.stop();
+
+  const report = coverage.report(checkoutMachine);
+  assertEquals(report.coveredTransitions.map(label), [
+    "cart: ADD_ITEM #0",
+    "cart: CHECKOUT #0",
+    "payment: after 60000 #0",
+  ]);
+  assertEquals(report.coveredTransitions[1].guard, "hasItems");
+});
+
+Deno.test("Coverage: coverage is collected across actors until reset", () => {
+  const coverage = createCoverage();
+
+  for (const event of ["PAY", "CANCEL"] as const) {
+    const actor = coverage.createActor(checkoutMachine);
+    actor.start();
+    actor.send({ type: "ADD_ITEM" });
+    actor.send({ type: "CHECKOUT" });
+    actor.send({ type: event });
+    actor.stop();
+  }
+
+  const report = coverage.report(checkoutMachine);
+  assertEquals(report.uncoveredStates, [
+    ["empty"],
+    ["payment", "wallet"],
+    ["expired"],
+  ]);
+  assertEquals(report.uncoveredTransitions.map(label), [
+    "cart: CHECKOUT #1",
+    "empty: always #0",
+    "payment: after 60000 #0",
+  ]);
+
+  coverage.reset();
+  assertEquals(coverage.report(checkoutMachine).coveredStates, []);
+});
+
+Deno.test("Coverage: transitions inherited from ancestors are attributed to them", () => {
+  const machine = createMachine({
+    initial: "editing",
+    on: { RESET: { target: ".editing" } },
+    states: {
+      editing: {
+        initial: "draft",
+        states: {
+          draft: {
+            on: {
+              SAVE: {
+                target: "saved",
+                guard: ({ event }) => event.valid === true,
+              },
+            },
+          },
+          saved: {},
+        },
+        on: { SAVE: { target: "failed" } },
+      },
+      failed: {},
+    },
+  });
+
+  const coverage = createCoverage();
+  const actor = coverage.createActor(machine);
+  actor.start();
+  actor.send({ type: "SAVE", valid: false });
+  actor.send({ type: "RESET" });
+  actor.stop();
+
+  assertEquals(coverage.report(machine).coveredTransitions.map(label), [
+    ": RESET #0",
+    "editing: SAVE #0",
+  ]);
+});
+
+Deno.test("Coverage: the text report lists what was not covered", () => {
+  const coverage = createCoverage();
+  const actor = coverage.createActor(checkoutMachine);
+  actor.start();
+  actor.send({ type: "ADD_ITEM" });
+  actor.send({ type: "CHECKOUT" });
+  actor.send({ type: "PAY" });
+
+  assertEquals(
+    formatCoverageReport(coverage.report(checkoutMachine)),
+    [
+      "States: 4/7 covered",
+      "  - empty",
+      "  - payment.wallet",
+      "  - expired",
+      "Transitions: 3/7 covered",
+      "  - cart: CHECKOUT (branch 2)",
+      "  - empty: always",
+      "  - payment: CANCEL",
+      "  - payment: after 60000",
+    ].join("\n"),
+  );
+});
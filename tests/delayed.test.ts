@@ -1,6 +1,15 @@
 import { assertEquals } from "@std/assert";
 import { createMachine } from "../src/core/machine.ts";
 import { createActor } from "../src/core/actor.ts";
+import { cancel, raise } from "../src/actions/index.ts";
+import { sendTo } from "../src/actions/spawn.ts";
+import { fromCallback } from "../src/actors/logic.ts";
+import {
+  createSimulatedClock,
+  setServices,
+  type SimulatedClock,
+} from "../src/core/services.ts";
+import type { EventObject } from "../src/core/types.ts";
 // import { assign } from "../src/actions/assign.ts";
 
 function sleep(ms: number) {
@@ -173,3 +182,215 @@ Deno.test("Delayed transitions: dynamic delay expression", async () => {
 
   assertEquals(actor.getSnapshot().value, "active");
 });
+
+/**
+ * Machine with an invoked "saver" child that records what it receives and an
+ * editor whose EDIT events schedule a debounced SAVE to it
+ */
+function createAutosaveMachine(received: string[]) {
+  return createMachine<Record<string, never>, EventObject>({
+    initial: "session",
+    states: {
+      session: {
+        invoke: {
+          id: "saver",
+          src: fromCallback(({ receive }) => {
+            receive((event) => received.push(event.type));
+          }),
+        },
+        initial: "editing",
+        states: {
+          editing: {
+            on: {
+              EDIT: {
+                actions: sendTo(
+                  "saver",
+                  { type: "SAVE" },
+                  { delay: 20, id: "autosave" },
+                ),
+              },
+              DISCARD: { actions: cancel("autosave") },
+              PREVIEW: { target: "previewing" },
+            },
+          },
+          previewing: {},
+        },
+      },
+    },
+  });
+}
+
+Deno.test("Delayed sendTo: delivers the event after the delay", async () => {
+  const received: string[] = [];
+  const actor = createActor(createAutosaveMachine(received));
+  actor.start();
+
+  actor.send({ type: "EDIT" });
+  assertEquals(received, []);
+
+  await sleep(40);
+  assertEquals(received, ["SAVE"]);
+  actor.stop();
+});
+
+Deno.test("Delayed sendTo: reusing an ID debounces the pending event", async () => {
+  const received: string[] = [];
+  const actor = createActor(createAutosaveMachine(received));
+  actor.start();
+
+  actor.send({ type: "EDIT" });
+  await sleep(10);
+  actor.send({ type: "EDIT" });
+  await sleep(12);
+  assertEquals(received, []);
+
+  await sleep(30);
+  assertEquals(received, ["SAVE"]);
+  actor.stop();
+});
+
+Deno.test("Delayed sendTo: cancel(id) prevents delivery", async () => {
+  const received: string[] = [];
+  const actor = createActor(createAutosaveMachine(received));
+  actor.start();
+
+  actor.send({ type: "EDIT" });
+  actor.send({ type: "DISCARD" });
+
+  await sleep(40);
+  assertEquals(received, []);
+  actor.stop();
+});
+
+Deno.test("Delayed sendTo: timers outlive the state that scheduled them", async () => {
+  const received: string[] = [];
+  const actor = createActor(createAutosaveMachine(received));
+  actor.start();
+
+  actor.send({ type: "EDIT" });
+  actor.send({ type: "PREVIEW" });
+
+  await sleep(40);
+  assertEquals(received, ["SAVE"]);
+  actor.stop();
+});
+
+Deno.test("Delayed sendTo: stopping the actor clears its timers", async () => {
+  const received: string[] = [];
+  const actor = createActor(createAutosaveMachine(received));
+  actor.start();
+
+  actor.send({ type: "EDIT" });
+  actor.stop();
+
+  await sleep(40);
+  assertEquals(received, []);
+});
+
+/**
+ * Run a test with a simulated clock installed as the global services
+ */
+function withClock(fn: (clock: SimulatedClock) => void): () => void {
+  return () => {
+    const clock = createSimulatedClock();
+    const previous = setServices(clock);
+    try {
+      fn(clock);
+    } finally {
+      setServices(previous);
+    }
+  };
+}
+
+Deno.test(
+  "Simulated clock: after transitions fire when time is advanced",
+  withClock((clock) => {
+    const machine = createMachine({
+      initial: "idle",
+      states: {
+        idle: { after: { 1000: { target: "active" } } },
+        active: { after: { 500: { target: "expired" } } },
+        expired: {},
+      },
+    });
+
+    const actor = createActor(machine);
+    actor.start();
+
+    clock.advance(999);
+    assertEquals(actor.getSnapshot().value, "idle");
+
+    clock.advance(1);
+    assertEquals(actor.getSnapshot().value, "active");
+
+    clock.runAll();
+    assertEquals(actor.getSnapshot().value, "expired");
+    assertEquals(clock.now(), 1500);
+  }),
+);
+
+Deno.test(
+  "Simulated clock: delayed sendTo is debounced and cancelled",
+  withClock((clock) => {
+    const received: string[] = [];
+    const actor = createActor(createAutosaveMachine(received));
+    actor.start();
+
+    actor.send({ type: "EDIT" });
+    clock.advance(10);
+    actor.send({ type: "EDIT" });
+    clock.advance(15);
+    assertEquals(received, []);
+
+    clock.advance(5);
+    assertEquals(received, ["SAVE"]);
+
+    actor.send({ type: "EDIT" });
+    actor.send({ type: "DISCARD" });
+    assertEquals(clock.pendingTimers(), []);
+
+    actor.stop();
+  }),
+);
+
+Deno.test(
+  "Simulated clock: stopping the actor clears its timers",
+  withClock((clock) => {
+    const machine = createMachine({
+      initial: "failed",
+      states: {
+        failed: {
+          entry: raise({ type: "RETRY" }, { delay: 20, id: "retry" }),
+          after: { 50: { target: "failed", reenter: true } },
+        },
+      },
+    });
+
+    const actor = createActor(machine);
+    actor.start();
+    assertEquals(clock.pendingTimers().length, 2);
+
+    actor.stop();
+    assertEquals(clock.pendingTimers(), []);
+  }),
+);
+
+Deno.test(
+  "Simulated clock: delayed events sent from exit actions do not outlive stop()",
+  withClock((clock) => {
+    const machine = createMachine({
+      initial: "connected",
+      states: {
+        connected: {
+          exit: raise({ type: "RECONNECT" }, { delay: 20 }),
+        },
+      },
+    });
+
+    const actor = createActor(machine);
+    actor.start();
+
+    actor.stop();
+    assertEquals(clock.pendingTimers(), []);
+  }),
+);
@@ -0,0 +1,209 @@
+import { assertEquals } from "@std/assert";
+import {
+  cancel,
+  createActor,
+  createMachine,
+  enqueueActions,
+  fromCallback,
+  raise,
+  setup,
+  stateIn,
+} from "../src/mod.ts";
+import type { EventObject } from "../src/mod.ts";
+
+Deno.test("enqueueActions: runs actions chosen at runtime in order", () => {
+  const log: string[] = [];
+
+  const machine = setup({
+    types: {
+      context: {} as { count: number },
+      events: {} as { type: "INC" } | { type: "FULL" },
+    },
+    actions: {
+      track: (_, params: { name: string }) => {
+        log.push(`track ${params.name}`);
+      },
+    },
+    guards: {
+      isFull: ({ context }) => context.count >= 2,
+    },
+  }).createMachine({
+    initial: "filling",
+    context: { count: 0 },
+    states: {
+      filling: {
+        on: {
+          INC: {
+            actions: enqueueActions(({ context, enqueue, check }) => {
+              enqueue.assign({ count: context.count + 1 });
+              enqueue(({ context }) => log.push(`count ${context.count}`));
+              if (check("isFull")) {
+                enqueue.raise({ type: "FULL" });
+              } else {
+                enqueue({ type: "track", params: { name: "inc" } });
+              }
+            }),
+          },
+          FULL: { target: "full" },
+        },
+      },
+      full: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  actor.send({ type: "INC" });
+  assertEquals(actor.getSnapshot().value, "filling");
+
+  actor.send({ type: "INC" });
+  assertEquals(actor.getSnapshot().context.count, 2);
+
+  // The guard is checked against the context before the queued assign runs
+  actor.send({ type: "INC" });
+  assertEquals(actor.getSnapshot().value, "full");
+  assertEquals(log, [
+    "count 1",
+    "track inc",
+    "count 2",
+    "track inc",
+    "count 3",
+  ]);
+});
+
+Deno.test("enqueueActions: check evaluates stateIn guards", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "player",
+    states: {
+      player: {
+        id: "player",
+        type: "parallel",
+        states: {
+          playback: {
+            initial: "paused",
+            states: {
+              paused: { on: { PLAY: "playing" } },
+              playing: {},
+            },
+          },
+          volume: {
+            initial: "normal",
+            states: {
+              normal: {
+                on: {
+                  REPORT: {
+                    actions: enqueueActions(({ check }) => {
+                      log.push(
+                        check(stateIn("#player.playback.playing"))
+                          ? "playing"
+                          : "paused",
+                      );
+                    }),
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  actor.send({ type: "REPORT" });
+  actor.send({ type: "PLAY" });
+  actor.send({ type: "REPORT" });
+  assertEquals(log, ["paused", "playing"]);
+});
+
+Deno.test("enqueueActions: sendTo goes through the effect mechanism", () => {
+  const received: string[] = [];
+
+  const machine = createMachine<{ urgent: boolean }, EventObject>({
+    initial: "active",
+    context: { urgent: true },
+    states: {
+      active: {
+        invoke: {
+          id: "notifier",
+          src: fromCallback(({ receive }) => {
+            receive((event) => received.push(event.type));
+          }),
+        },
+        on: {
+          NOTIFY: {
+            actions: enqueueActions(({ context, enqueue }) => {
+              enqueue.sendTo("notifier", {
+                type: context.urgent ? "PAGE" : "EMAIL",
+              });
+            }),
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "NOTIFY" });
+
+  assertEquals(received, ["PAGE"]);
+  actor.stop();
+});
+
+Deno.test("enqueueActions: cancel removes a delayed event", async () => {
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        entry: raise({ type: "TIMEOUT" }, { delay: 20, id: "timeout" }),
+        on: {
+          TIMEOUT: { target: "timedOut" },
+          RESPOND: {
+            actions: enqueueActions(({ enqueue }) => {
+              enqueue.cancel("timeout");
+            }),
+          },
+        },
+      },
+      timedOut: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "RESPOND" });
+
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  assertEquals(actor.getSnapshot().value, "waiting");
+  actor.stop();
+});
+
+Deno.test("cancel: cancels a delayed raise by ID", async () => {
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        entry: raise({ type: "TIMEOUT" }, { delay: 20, id: "timeout" }),
+        on: {
+          TIMEOUT: { target: "timedOut" },
+          RESPOND: { actions: cancel("timeout") },
+        },
+      },
+      timedOut: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "RESPOND" });
+
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  assertEquals(actor.getSnapshot().value, "waiting");
+  actor.stop();
+});
@@ -0,0 +1,325 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { assign, createActor, createMachine, sendTo } from "../src/mod.ts";
+
+Deno.test("Final: onDone fires when a compound state reaches a final child", () => {
+  const machine = createMachine({
+    initial: "checkout",
+    states: {
+      checkout: {
+        initial: "cart",
+        states: {
+          cart: { on: { PAY: { target: "paid" } } },
+          paid: { type: "final" },
+        },
+        onDone: { target: "receipt" },
+      },
+      receipt: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "PAY" });
+
+  assertEquals(actor.getSnapshot().value, "receipt");
+});
+
+Deno.test("Final: parallel state is done when every region is final", () => {
+  const machine = createMachine({
+    initial: "upload",
+    states: {
+      upload: {
+        type: "parallel",
+        states: {
+          file: {
+            initial: "sending",
+            states: {
+              sending: { on: { FILE_DONE: { target: "sent" } } },
+              sent: { type: "final" },
+            },
+          },
+          thumbnail: {
+            initial: "rendering",
+            states: {
+              rendering: { on: { THUMB_DONE: { target: "rendered" } } },
+              rendered: { type: "final" },
+            },
+          },
+        },
+        onDone: { target: "complete" },
+      },
+      complete: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  actor.send({ type: "FILE_DONE" });
+  assertEquals(actor.getSnapshot().value, {
+    upload: { file: "sent", thumbnail: "rendering" },
+  });
+
+  actor.send({ type: "THUMB_DONE" });
+  assertEquals(actor.getSnapshot().value, "complete");
+});
+
+Deno.test("Final: nested parallel regions complete the outer parallel state", () => {
+  const machine = createMachine({
+    initial: "job",
+    states: {
+      job: {
+        type: "parallel",
+        states: {
+          assets: {
+            type: "parallel",
+            states: {
+              images: {
+                initial: "loading",
+                states: {
+                  loading: { on: { IMAGES: { target: "loaded" } } },
+                  loaded: { type: "final" },
+                },
+              },
+              fonts: {
+                initial: "loading",
+                states: {
+                  loading: { on: { FONTS: { target: "loaded" } } },
+                  loaded: { type: "final" },
+                },
+              },
+            },
+          },
+          data: {
+            initial: "fetching",
+            states: {
+              fetching: { on: { DATA: { target: "fetched" } } },
+              fetched: { type: "final" },
+            },
+          },
+        },
+        onDone: { target: "ready" },
+      },
+      ready: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "DATA" });
+  actor.send({ type: "IMAGES" });
+  assertEquals(actor.getSnapshot().value, {
+    job: {
+      assets: { images: "loaded", fonts: "loading" },
+      data: "fetched",
+    },
+  });
+
+  actor.send({ type: "FONTS" });
+  assertEquals(actor.getSnapshot().value, "ready");
+});
+
+Deno.test("Final: onDone runs after the final state's entry actions", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "task",
+    states: {
+      task: {
+        initial: "working",
+        states: {
+          working: { on: { FINISH: { target: "finished" } } },
+          finished: {
+            type: "final",
+            entry: () => log.push("entry:finished"),
+          },
+        },
+        onDone: {
+          target: "idle",
+          actions: () => log.push("onDone"),
+        },
+      },
+      idle: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "FINISH" });
+
+  assertEquals(log, ["entry:finished", "onDone"]);
+});
+
+Deno.test("Final: top-level final state completes the actor with output", () => {
+  const machine = createMachine({
+    initial: "counting",
+    context: { count: 0 },
+    states: {
+      counting: {
+        on: {
+          INC: {
+            actions: assign(({ context }) => ({ count: context.count + 1 })),
+          },
+          FINISH: { target: "done" },
+        },
+      },
+      done: { type: "final" },
+    },
+    output: ({ context }) => ({ total: context.count }),
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "INC" });
+  actor.send({ type: "INC" });
+  actor.send({ type: "FINISH" });
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.value, "done");
+  assertEquals(snapshot.output, { total: 2 });
+
+  // Events sent after completion are ignored
+  actor.send({ type: "INC" });
+  assertEquals(actor.getSnapshot().context, { count: 2 });
+});
+
+Deno.test("Final: completing the actor runs exit actions before notifying its parent", () => {
+  const log: string[] = [];
+
+  const child = createMachine({
+    initial: "working",
+    states: {
+      working: {
+        exit: () => log.push("exit working"),
+        on: { FINISH: { target: "finished" } },
+      },
+      finished: {
+        type: "final",
+        exit: () => log.push("exit finished"),
+      },
+    },
+  });
+
+  const parent = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: {
+          id: "child",
+          src: child,
+          onDone: {
+            target: "done",
+            actions: () => log.push("onDone"),
+          },
+        },
+        on: {
+          FINISH: { actions: sendTo("child", { type: "FINISH" }) },
+        },
+      },
+      done: {},
+    },
+  });
+
+  const actor = createActor(parent);
+  actor.start();
+  actor.send({ type: "FINISH" });
+
+  assertEquals(log, ["exit working", "exit finished", "onDone"]);
+  assertEquals(actor.getSnapshot().value, "done");
+});
+
+Deno.test("Final: exiting a parallel state runs its exit actions once", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "p",
+    states: {
+      p: {
+        type: "parallel",
+        exit: () => log.push("exit p"),
+        states: {
+          left: {
+            initial: "a",
+            exit: () => log.push("exit left"),
+            states: { a: { exit: () => log.push("exit left.a") } },
+          },
+          right: {
+            initial: "b",
+            exit: () => log.push("exit right"),
+            states: { b: { exit: () => log.push("exit right.b") } },
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.stop();
+
+  assertEquals(log, [
+    "exit left.a",
+    "exit right.b",
+    "exit left",
+    "exit right",
+    "exit p",
+  ]);
+});
+
+Deno.test("Final: completing the actor stops its timers", async () => {
+  let fired = false;
+
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        after: { 20: { actions: () => (fired = true) } },
+        on: { END: { target: "ended" } },
+      },
+      ended: { type: "final" },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "END" });
+
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  assertEquals(fired, false);
+});
+
+Deno.test("Final: always transition into a final state completes the machine", () => {
+  const machine = createMachine({
+    initial: "check",
+    context: { ok: true },
+    states: {
+      check: { always: { target: "success" } },
+      success: { type: "final" },
+    },
+    output: ({ context }) => context.ok,
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  assertEquals(actor.getSnapshot().value, "success");
+  assertEquals(actor.getSnapshot().output, true);
+});
+
+Deno.test("Final: final states cannot have child states", () => {
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: {
+            type: "final",
+            initial: "b",
+            states: { b: {} },
+          },
+        },
+      }),
+    Error,
+    "cannot have child states",
+  );
+});
@@ -0,0 +1,224 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  assign,
+  createActor,
+  createMachine,
+  getShortestPaths,
+  getSimplePaths,
+  setup,
+} from "../src/mod.ts";
+
+type CheckoutEvent =
+  | { type: "ADD_ITEM"; quantity: number }
+  | { type: "CHECKOUT" }
+  | { type: "PAY" }
+  | { type: "CANCEL" };
+
+const checkoutMachine = setup({
+  types: {
+    context: {} as { items: number },
+    events: {} as CheckoutEvent,
+  },
+}).createMachine({
+  initial: "cart",
+  context: { items: 0 },
+  states: {
+    cart: {
+      on: {
+        ADD_ITEM: {
+          actions: assign(({ context, event }) => ({
+            items: context.items + (event as { quantity: number }).quantity,
+          })),
+        },
+        CHECKOUT: {
+          target: "payment",
+          guard: ({ context }) => context.items > 0,
+        },
+      },
+    },
+    payment: {
+      on: { PAY: { target: "paid" }, CANCEL: { target: "cart" } },
+      after: { 60000: { target: "expired" } },
+    },
+    paid: { type: "final" },
+    expired: {},
+  },
+});
+
+const events: CheckoutEvent[] = [
+  { type: "ADD_ITEM", quantity: 1 },
+  { type: "CHECKOUT" },
+  { type: "PAY" },
+  { type: "CANCEL" },
+];
+
+// Only whether the cart is empty matters for the paths
+const serializeContext = ({ items }: { items: number }) => String(items > 0);
+
+const describe = (path: { steps: { event: { type: string } }[] }) =>
+  path.steps.map(({ event }) => event.type).join(" > ");
+
+Deno.test("Graph: shortest paths reach every state", () => {
+  const paths = getShortestPaths(checkoutMachine, {
+    events,
+    serializeContext,
+  });
+
+  assertEquals(
+    paths.map((path) => [path.state.value, describe(path)]),
+    [
+      ["cart", ""],
+      ["cart", "ADD_ITEM"],
+      ["payment", "ADD_ITEM > CHECKOUT"],
+      ["paid", "ADD_ITEM > CHECKOUT > PAY"],
+      ["expired", "ADD_ITEM > CHECKOUT > $delay"],
+    ],
+  );
+  assertEquals(paths[3].state.status, "done");
+  assertEquals(paths[3].weight, 3);
+});
+
+Deno.test("Graph: simple paths list every route without revisiting states", () => {
+  const machine = createMachine({
+    initial: "start",
+    states: {
+      start: { on: { LEFT: { target: "left" }, RIGHT: { target: "right" } } },
+      left: { on: { RIGHT: { target: "end" }, BACK: { target: "start" } } },
+      right: { on: { LEFT: { target: "end" } } },
+      end: { type: "final" },
+    },
+  });
+  const options = {
+    events: [{ type: "LEFT" }, { type: "RIGHT" }, { type: "BACK" }],
+  };
+
+  assertEquals(getSimplePaths(machine, options).map(describe), [
+    "",
+    "LEFT",
+    "LEFT > RIGHT",
+    "RIGHT",
+    "RIGHT > LEFT",
+  ]);
+  assertEquals(
+    getShortestPaths(machine, options).map(describe),
+    ["", "LEFT", "RIGHT", "LEFT > RIGHT"],
+  );
+});
+
+Deno.test("Graph: event samples can depend on the state", () => {
+  const paths = getShortestPaths(checkoutMachine, {
+    events: (state): CheckoutEvent[] =>
+      state.context.items < 4
+        ? [{ type: "ADD_ITEM", quantity: 2 }, { type: "CHECKOUT" }]
+        : [{ type: "CHECKOUT" }, { type: "PAY" }],
+  });
+
+  assertEquals(
+    paths.map(({ state }) => [state.value, state.context.items]),
+    [
+      ["cart", 0],
+      ["cart", 2],
+      ["cart", 4],
+      ["payment", 2],
+      ["payment", 4],
+      ["expired", 2],
+      ["paid", 4],
+      ["expired", 4],
+    ],
+  );
+});
+
+Deno.test("Graph: paths replay on a real actor", () => {
+  const paths = getShortestPaths(checkoutMachine, {
+    events,
+    serializeContext,
+  });
+
+  for (const path of paths) {
+    const actor = createActor(checkoutMachine);
+    actor.start();
+    path.steps.forEach(({ event }) => actor.send(event));
+    assertEquals(actor.getSnapshot().value, path.state.value);
+    assertEquals(actor.getSnapshot().context, path.state.context);
+    actor.stop();
+  }
+});
+
+Deno.test("Graph: traversal stops at the state limit", () => {
+  const counter = createMachine({
+    initial: "counting",
+    context: { count: 0 },
+    states: {
+      counting: {
+        on: {
+          INC: {
+            actions: assign(({ context }) => ({ count: context.count + 1 })),
+          },
+        },
+      },
+    },
+  });
+
+  assertThrows(
+    () => getShortestPaths(counter, { events: [{ type: "INC" }], limit: 50 }),
+    Error,
+    "Traversal limit of 50 states exceeded",
+  );
+});
+
+Deno.test("Graph: machines that spawn actors can be traversed", () => {
+  const child = createMachine({ initial: "idle", states: { idle: {} } });
+
+  const machine = setup({
+    // deno-lint-ignore no-explicit-any
+    types: { context: {} as { childRef: any } },
+  }).createMachine({
+    initial: "idle",
+    context: { childRef: null },
+    states: {
+      idle: {
+        on: {
+          START: {
+            target: "running",
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              childRef: ({ spawn }: any) => spawn(child, { id: "child" }),
+            }),
+          },
+        },
+      },
+      running: { on: { STOP: "idle" } },
+    },
+  });
+
+  const events = [{ type: "START" }, { type: "STOP" }];
+  const shortest = getShortestPaths(machine, { events });
+  assertEquals(
+    shortest.map((path) => path.steps.map((step) => step.event.type)),
+    [[], ["START"], ["START", "STOP"]],
+  );
+  assertEquals(getSimplePaths(machine, { events }).length, 3);
+});
+
+Deno.test("Graph: the limit bounds the number of simple paths", () => {
+  // Every pair of states is connected, so the four states have 16 simple
+  // paths from the initial state
+  const states = ["a", "b", "c", "d"];
+  const machine = createMachine({
+    initial: "a",
+    states: Object.fromEntries(
+      states.map((state) => [
+        state,
+        { on: Object.fromEntries(states.map((to) => [to.toUpperCase(), to])) },
+      ]),
+    ),
+  });
+  const events = states.map((state) => ({ type: state.toUpperCase() }));
+
+  assertEquals(getSimplePaths(machine, { events }).length, 16);
+  assertThrows(
+    () => getSimplePaths(machine, { events, limit: 10 }),
+    Error,
+    "Traversal limit of 10 paths exceeded",
+  );
+});
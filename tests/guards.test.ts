@@ -0,0 +1,154 @@
+import { assertEquals } from "@std/assert";
+import {
+  and,
+  createActor,
+  createMachine,
+  not,
+  or,
+  setup,
+  stateIn,
+  toMermaid,
+} from "../src/mod.ts";
+
+interface UserContext {
+  role: string;
+  locked: boolean;
+  credits: number;
+}
+
+const createUserMachine = (context: UserContext) =>
+  setup({
+    types: {
+      context: {} as UserContext,
+      events: {} as { type: "ENTER" },
+    },
+    guards: {
+      isAdmin: ({ context }) => context.role === "admin",
+      isLocked: ({ context }) => context.locked,
+      hasCredits: ({ context }, params: { min: number }) =>
+        context.credits >= params.min,
+    },
+  }).createMachine({
+    initial: "outside",
+    context,
+    states: {
+      outside: {
+        on: {
+          ENTER: [
+            {
+              target: "admin",
+              guard: and(["isAdmin", not("isLocked")]),
+            },
+            {
+              target: "member",
+              guard: or([
+                { type: "hasCredits", params: { min: 10 } },
+                and([
+                  "isAdmin",
+                  {
+                    type: "hasCredits",
+                    params: ({ context }) => ({
+                      min: context.locked ? 1 : 100,
+                    }),
+                  },
+                ]),
+              ]),
+            },
+            { target: "denied" },
+          ],
+        },
+      },
+      admin: {},
+      member: {},
+      denied: {},
+    },
+  });
+
+const enter = (context: UserContext) => {
+  const actor = createActor(createUserMachine(context));
+  actor.start();
+  actor.send({ type: "ENTER" });
+  return actor.getSnapshot().value;
+};
+
+Deno.test("Guards: and / not combine named guards", () => {
+  assertEquals(enter({ role: "admin", locked: false, credits: 0 }), "admin");
+  assertEquals(enter({ role: "user", locked: false, credits: 0 }), "denied");
+});
+
+Deno.test("Guards: or and params passed to guard implementations", () => {
+  assertEquals(enter({ role: "user", locked: false, credits: 10 }), "member");
+  assertEquals(enter({ role: "user", locked: false, credits: 9 }), "denied");
+});
+
+Deno.test("Guards: params can be computed from context and event", () => {
+  // Locked admins only need one credit to become members
+  assertEquals(enter({ role: "admin", locked: true, credits: 1 }), "member");
+  assertEquals(enter({ role: "admin", locked: true, credits: 0 }), "denied");
+});
+
+Deno.test("Guards: stateIn checks another parallel region", () => {
+  const machine = createMachine({
+    initial: "editor",
+    states: {
+      editor: {
+        id: "editor",
+        type: "parallel",
+        states: {
+          document: {
+            initial: "clean",
+            states: {
+              clean: { on: { EDIT: { target: "dirty" } } },
+              dirty: {},
+            },
+          },
+          toolbar: {
+            initial: "idle",
+            states: {
+              idle: {
+                on: {
+                  SAVE: {
+                    target: "saving",
+                    guard: stateIn("#editor.document.dirty"),
+                  },
+                },
+              },
+              saving: {},
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  actor.send({ type: "SAVE" });
+  assertEquals(actor.getSnapshot().value, {
+    editor: { document: "clean", toolbar: "idle" },
+  });
+
+  actor.send({ type: "EDIT" });
+  actor.send({ type: "SAVE" });
+  assertEquals(actor.getSnapshot().value, {
+    editor: { document: "dirty", toolbar: "saving" },
+  });
+});
+
+Deno.test("Guards: combined guards are labelled in toMermaid", () => {
+  const diagram = toMermaid(
+    createUserMachine({ role: "user", locked: false, credits: 0 }),
+  );
+
+  assertEquals(
+    diagram.includes("outside --> admin : ENTER [isAdmin && !isLocked]"),
+    true,
+  );
+  assertEquals(
+    diagram.includes(
+      "outside --> member : ENTER [hasCredits || (isAdmin && hasCredits)]",
+    ),
+    true,
+  );
+});
@@ -0,0 +1,177 @@
+import { assertEquals } from "@std/assert";
+import {
+  createActor,
+  createCounterServices,
+  createMachine,
+  fromCallback,
+  type InspectionEvent,
+  sendParent,
+  sendTo,
+  setup,
+  withServices,
+} from "../src/mod.ts";
+
+function record(records: InspectionEvent[]) {
+  return (inspectionEvent: InspectionEvent) => records.push(inspectionEvent);
+}
+
+Deno.test("Inspect: reports events, transitions, actions and snapshots", () => {
+  const records: InspectionEvent[] = [];
+
+  const machine = setup({
+    types: {
+      context: {} as { attempts: number },
+      events: {} as { type: "SUBMIT" },
+    },
+    actions: { track: () => {} },
+    guards: { isEmpty: () => false, isReady: () => true },
+  }).createMachine({
+    id: "form",
+    initial: "editing",
+    context: { attempts: 0 },
+    states: {
+      editing: {
+        exit: { type: "track", params: { step: "editing" } },
+        on: {
+          SUBMIT: [
+            { target: "invalid", guard: "isEmpty" },
+            { target: "submitted", guard: "isReady" },
+          ],
+        },
+      },
+      invalid: {},
+      submitted: {},
+    },
+  });
+
+  const actor = createActor(machine, { inspect: record(records) });
+  actor.start();
+  records.length = 0;
+
+  actor.send({ type: "SUBMIT" });
+
+  assertEquals(
+    records.map(({ type }) => type),
+    [
+      "@ustate.event",
+      "@ustate.transition",
+      "@ustate.action",
+      "@ustate.snapshot",
+    ],
+  );
+
+  const [event, transition, action, snapshot] = records;
+  assertEquals(event.actorId, "form");
+  if (event.type === "@ustate.event") {
+    assertEquals(event.event, { type: "SUBMIT" });
+    assertEquals(event.sourceId, undefined);
+  }
+  if (transition.type === "@ustate.transition") {
+    assertEquals(transition.source, ["editing"]);
+    assertEquals(transition.targets, [["submitted"]]);
+    assertEquals(transition.guards, [
+      { guard: "isEmpty", passed: false },
+      { guard: "isReady", passed: true },
+    ]);
+  }
+  if (action.type === "@ustate.action") {
+    assertEquals(action.action, {
+      type: "track",
+      params: { step: "editing" },
+    });
+  }
+  if (snapshot.type === "@ustate.snapshot") {
+    assertEquals(snapshot.snapshot.value, "submitted");
+  }
+});
+
+Deno.test("Inspect: timestamps come from SystemServices.now()", () => {
+  const records: InspectionEvent[] = [];
+  const machine = createMachine({
+    initial: "idle",
+    states: { idle: { on: { GO: { target: "done" } } }, done: {} },
+  });
+
+  withServices(createCounterServices(), () => {
+    const actor = createActor(machine, { inspect: record(records) });
+    actor.start();
+    actor.send({ type: "GO" });
+  });
+
+  const timestamps = records.map(({ timestamp }) => timestamp);
+  assertEquals(timestamps, [...timestamps].sort((a, b) => a - b));
+  assertEquals(new Set(timestamps).size, timestamps.length);
+});
+
+Deno.test("Inspect: reports child actors with their parent and sender IDs", () => {
+  const records: InspectionEvent[] = [];
+
+  const childMachine = createMachine({
+    initial: "active",
+    states: {
+      active: {
+        on: { PING: { actions: sendParent({ type: "PONG" }) } },
+      },
+    },
+  });
+
+  const machine = createMachine({
+    id: "parent",
+    initial: "running",
+    states: {
+      running: {
+        invoke: [
+          { id: "child", src: childMachine },
+          {
+            id: "ticker",
+            src: fromCallback(({ sendBack }) => sendBack({ type: "TICK" })),
+          },
+        ],
+        on: {
+          PING: { actions: sendTo("child", { type: "PING" }) },
+          STOP: { target: "stopped" },
+        },
+      },
+      stopped: {},
+    },
+  });
+
+  const lifecycle = () =>
+    records.flatMap((r) =>
+      r.type === "@ustate.actor" ? [[r.actorId, r.parentId, r.status]] : []
+    );
+  const events = () =>
+    records.flatMap((r) =>
+      r.type === "@ustate.event"
+        ? [[r.actorId, r.parentId, r.event.type, r.sourceId]]
+        : []
+    );
+
+  const actor = createActor(machine, { inspect: record(records) });
+  actor.start();
+
+  assertEquals(lifecycle(), [
+    ["parent", undefined, "started"],
+    ["child", "parent", "started"],
+    ["ticker", "parent", "started"],
+  ]);
+  assertEquals(events(), [["parent", undefined, "TICK", "ticker"]]);
+
+  records.length = 0;
+  actor.send({ type: "PING" });
+  assertEquals(events(), [
+    ["parent", undefined, "PING", undefined],
+    ["child", "parent", "PING", undefined],
+    ["parent", undefined, "PONG", "child"],
+  ]);
+
+  records.length = 0;
+  actor.send({ type: "STOP" });
+  assertEquals(lifecycle(), [
+    ["child", "parent", "stopped"],
+    ["ticker", "parent", "stopped"],
+  ]);
+
+  actor.stop();
+  assertEquals(lifecycle().at(-1), ["parent", undefined, "stopped"]);
+});
@@ -1,5 +1,6 @@
 import { assertEquals } from "@std/assert";
 import { createActor, createMachine } from "../src/mod.ts";
+import { sendTo } from "../src/actions/spawn.ts";
 import { fromCallback, fromPromise } from "../src/actors/logic.ts";
 import type { ActorLogic, EventObject } from "../src/core/types.ts";
 
@@ -164,3 +165,94 @@ Deno.test("invoke - stops when exiting state", async () => {
   assertEquals(actor.getSnapshot().value, "cancelled");
   assertEquals(cleanupCalled, true);
 });
+
+Deno.test("invoke - machine actor fires onDone with its output", () => {
+  const child = createMachine({
+    initial: "working",
+    context: { attempts: 2 },
+    states: {
+      working: { on: { FINISH: { target: "finished" } } },
+      finished: { type: "final" },
+    },
+    output: ({ context }) => ({ attempts: context.attempts }),
+  });
+
+  let received: unknown;
+  const parent = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: {
+          id: "worker",
+          src: child,
+          onDone: {
+            target: "success",
+            actions: ({ event }) => {
+              received = event.output;
+            },
+          },
+        },
+        on: {
+          FORWARD: {
+            actions: sendTo("worker", { type: "FINISH" }),
+          },
+        },
+      },
+      success: {},
+    },
+  });
+
+  const actor = createActor(parent);
+  actor.start();
+  actor.send({ type: "FORWARD" });
+
+  assertEquals(actor.getSnapshot().value, "success");
+  assertEquals(received, { attempts: 2 });
+});
+
+Deno.test("invoke - machine actor errors become onError events", () => {
+  const child = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          BOOM: {
+            actions: () => {
+              throw new Error("child failed");
+            },
+          },
+        },
+      },
+    },
+  });
+
+  let received: unknown;
+  const parent = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: {
+          id: "worker",
+          src: child,
+          onError: {
+            target: "failed",
+            actions: ({ event }) => {
+              received = event.error;
+            },
+          },
+        },
+        on: {
+          FORWARD: { actions: sendTo("worker", { type: "BOOM" }) },
+        },
+      },
+      failed: {},
+    },
+  });
+
+  const actor = createActor(parent);
+  actor.start();
+  actor.send({ type: "FORWARD" });
+
+  assertEquals(actor.getSnapshot().value, "failed");
+  assertEquals((received as Error).message, "child failed");
+});
@@ -0,0 +1,176 @@
+import { assertEquals } from "@std/assert";
+import { createActor, createMachine, fromCallback, raise } from "../src/mod.ts";
+import { sendTo } from "../src/actions/spawn.ts";
+import type { ActorRef, EventObject } from "../src/mod.ts";
+
+Deno.test("Mailbox: send from an action waits for the current transition", () => {
+  const log: string[] = [];
+  // deno-lint-ignore prefer-const
+  let actor: ActorRef<unknown, EventObject>;
+
+  const machine = createMachine({
+    initial: "a",
+    states: {
+      a: {
+        on: {
+          GO: {
+            target: "b",
+            actions: () => {
+              actor.send({ type: "NEXT" });
+              log.push("action");
+            },
+          },
+        },
+        exit: () => log.push("exit:a"),
+      },
+      b: {
+        entry: () => log.push("entry:b"),
+        on: { NEXT: { target: "c" } },
+        exit: () => log.push("exit:b"),
+      },
+      c: {
+        entry: () => log.push("entry:c"),
+      },
+    },
+  });
+
+  actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, "c");
+  assertEquals(log, ["exit:a", "action", "entry:b", "exit:b", "entry:c"]);
+});
+
+Deno.test("Mailbox: raised events run before events sent from actions", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          GO: {
+            target: "first",
+            actions: [
+              () => actor.send({ type: "EXTERNAL" }),
+              raise({ type: "INTERNAL" }),
+            ],
+          },
+        },
+      },
+      first: {
+        on: {
+          INTERNAL: { target: "second" },
+          EXTERNAL: { target: "wrong" },
+        },
+      },
+      second: {
+        on: { EXTERNAL: { target: "done" } },
+      },
+      wrong: {},
+      done: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, "done");
+});
+
+Deno.test("Mailbox: observers never see torn snapshots from synchronous replies", () => {
+  const seen: unknown[] = [];
+
+  const machine = createMachine({
+    initial: "session",
+    states: {
+      session: {
+        invoke: {
+          id: "echo",
+          src: fromCallback(({ sendBack, receive }) => {
+            receive((event) => sendBack({ type: "PONG", from: event.type }));
+          }),
+        },
+        initial: "idle",
+        states: {
+          idle: {
+            on: {
+              PING: {
+                target: "waiting",
+                actions: sendTo("echo", { type: "PING" }),
+              },
+            },
+          },
+          waiting: {
+            always: { target: "settled" },
+          },
+          settled: {
+            on: { PONG: { target: "done" } },
+          },
+          done: {},
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.subscribe((snapshot) => seen.push(snapshot.value));
+  actor.start();
+  actor.send({ type: "PING" });
+
+  assertEquals(actor.getSnapshot().value, { session: "done" });
+  // The transient waiting state is never seen, only settled macrosteps
+  assertEquals(seen, [
+    { session: "idle" },
+    { session: "settled" },
+    { session: "done" },
+  ]);
+});
+
+Deno.test("Mailbox: starting an actor notifies observers once", () => {
+  const seen: unknown[] = [];
+
+  const machine = createMachine({
+    initial: "loading",
+    states: {
+      loading: {
+        invoke: { id: "loader", src: fromCallback(() => {}) },
+        always: { target: "ready" },
+      },
+      ready: {
+        invoke: { id: "worker", src: fromCallback(() => {}) },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.subscribe((snapshot) => seen.push(snapshot.value));
+  actor.start();
+
+  assertEquals(seen, ["ready"]);
+  actor.stop();
+});
+
+Deno.test("Mailbox: events sent from observers are processed in order", () => {
+  const machine = createMachine({
+    initial: "one",
+    states: {
+      one: { on: { NEXT: { target: "two" } } },
+      two: { on: { NEXT: { target: "three" } } },
+      three: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  const seen: unknown[] = [];
+  actor.subscribe((snapshot) => {
+    seen.push(snapshot.value);
+    if (snapshot.value === "two") {
+      actor.send({ type: "NEXT" });
+    }
+  });
+  actor.start();
+  actor.send({ type: "NEXT" });
+
+  assertEquals(seen, ["one", "two", "three"]);
+});
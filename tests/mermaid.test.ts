@@ -177,3 +177,70 @@ Deno.test("toMermaid - delayed transitions", () => {
   assertEquals(diagram.includes("green --> yellow : after 1000"), true);
   assertEquals(diagram.includes("yellow --> red : after 500"), true);
 });
+
+Deno.test("toMermaid - wildcard and partial event descriptors", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          "mouse.*": { target: "tracking" },
+          "*": { target: "unknown" },
+        },
+      },
+      tracking: {},
+      unknown: {},
+    },
+  });
+
+  const diagram = toMermaid(machine);
+
+  assertEquals(diagram.includes("idle --> tracking : mouse.*"), true);
+  assertEquals(diagram.includes("idle --> unknown : (any)"), true);
+});
+
+Deno.test("toMermaid - state ID and descendant targets", () => {
+  const machine = createMachine({
+    id: "player",
+    initial: "video",
+    states: {
+      video: {
+        initial: "idle",
+        on: { LOAD: { target: ".loading" } },
+        states: {
+          idle: {},
+          loading: { on: { FAIL: { target: "#failure" } } },
+        },
+      },
+      error: {
+        id: "failure",
+      },
+    },
+  });
+
+  const diagram = toMermaid(machine);
+
+  assertEquals(diagram.includes("video --> video_loading : LOAD"), true);
+  assertEquals(diagram.includes("video_loading --> error : FAIL"), true);
+});
+
+Deno.test("toMermaid - multiple targets render one edge per target", () => {
+  const machine = createMachine({
+    initial: "off",
+    states: {
+      off: { on: { START: { target: ["on.video.paused", "on.audio.muted"] } } },
+      on: {
+        type: "parallel",
+        states: {
+          video: { initial: "playing", states: { playing: {}, paused: {} } },
+          audio: { initial: "loud", states: { loud: {}, muted: {} } },
+        },
+      },
+    },
+  });
+
+  const diagram = toMermaid(machine);
+
+  assertEquals(diagram.includes("off --> on_video_paused : START"), true);
+  assertEquals(diagram.includes("off --> on_audio_muted : START"), true);
+});
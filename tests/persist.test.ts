@@ -0,0 +1,259 @@
+import { assertEquals } from "@std/assert";
+import {
+  assign,
+  createActor,
+  createMachine,
+  createSimulatedClock,
+  type PersistedSnapshot,
+  raise,
+  sendTo,
+  setup,
+} from "../src/mod.ts";
+
+// Persisted snapshots must survive a trip through JSON
+function roundTrip<T>(snapshot: PersistedSnapshot<T>): PersistedSnapshot<T> {
+  return JSON.parse(JSON.stringify(snapshot));
+}
+
+Deno.test("Persist: restores state, context and history without entry actions", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "onboarding",
+    context: { step: 0 },
+    states: {
+      onboarding: {
+        initial: "profile",
+        entry: () => log.push("entry onboarding"),
+        states: {
+          profile: {
+            entry: () => log.push("entry profile"),
+            on: {
+              NEXT: {
+                target: "billing",
+                actions: assign(({ context }) => ({ step: context.step + 1 })),
+              },
+            },
+          },
+          billing: { entry: () => log.push("entry billing") },
+          hist: { type: "history" },
+        },
+        on: { PAUSE: { target: "paused" } },
+      },
+      paused: { on: { RESUME: { target: "onboarding.hist" } } },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "NEXT" });
+  actor.send({ type: "PAUSE" });
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+  actor.stop();
+  log.length = 0;
+
+  const restored = createActor(machine, { snapshot: persisted });
+  restored.start();
+  assertEquals(log, []);
+  assertEquals(restored.getSnapshot().value, "paused");
+  assertEquals(restored.getSnapshot().context, { step: 1 });
+
+  restored.send({ type: "RESUME" });
+  assertEquals(restored.getSnapshot().value, { onboarding: "billing" });
+  assertEquals(log, ["entry onboarding", "entry billing"]);
+
+  restored.stop();
+});
+
+Deno.test("Persist: restored after timers wait only for their remaining time", () => {
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: { after: { 80: { target: "expired" } } },
+      expired: {},
+    },
+  });
+
+  const clock = createSimulatedClock();
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  clock.advance(40);
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+  actor.stop();
+
+  const restored = createActor(machine, {
+    services: clock,
+    snapshot: persisted,
+  });
+  restored.start();
+  clock.advance(39);
+  assertEquals(restored.getSnapshot().value, "waiting");
+
+  clock.advance(1);
+  assertEquals(restored.getSnapshot().value, "expired");
+
+  restored.stop();
+});
+
+Deno.test("Persist: restores pending delayed events", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          START: {
+            target: "running",
+            actions: raise({ type: "TIMEOUT" }, { delay: 40, id: "timeout" }),
+          },
+        },
+      },
+      running: { on: { TIMEOUT: { target: "timedOut" } } },
+      timedOut: {},
+    },
+  });
+
+  const clock = createSimulatedClock();
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  actor.send({ type: "START" });
+  clock.advance(10);
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+  actor.stop();
+
+  assertEquals(persisted.scheduled.map(({ id }) => id), ["timeout"]);
+
+  const restored = createActor(machine, {
+    services: clock,
+    snapshot: persisted,
+  });
+  restored.start();
+  clock.advance(29);
+  assertEquals(restored.getSnapshot().value, "running");
+
+  clock.advance(1);
+  assertEquals(restored.getSnapshot().value, "timedOut");
+
+  restored.stop();
+});
+
+Deno.test("Persist: restores invoked machine actors recursively", () => {
+  const childMachine = createMachine({
+    initial: "first",
+    states: {
+      first: { on: { ADVANCE: { target: "second" } } },
+      second: { on: { ADVANCE: { target: "finished" } } },
+      finished: { type: "final" },
+    },
+  });
+
+  const machine = createMachine({
+    initial: "working",
+    states: {
+      working: {
+        invoke: { id: "wizard", src: childMachine, onDone: { target: "done" } },
+        on: { ADVANCE: { actions: sendTo("wizard", { type: "ADVANCE" }) } },
+      },
+      done: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "ADVANCE" });
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+  actor.stop();
+
+  assertEquals(persisted.invoked["working"][0].snapshot?.value, "second");
+
+  const restored = createActor(machine, { snapshot: persisted });
+  restored.start();
+  assertEquals(
+    restored.getPersistedSnapshot().invoked["working"][0].snapshot?.value,
+    "second",
+  );
+
+  restored.send({ type: "ADVANCE" });
+  assertEquals(restored.getSnapshot().value, "done");
+
+  restored.stop();
+});
+
+Deno.test("Persist: restores spawned actors and their references in context", () => {
+  const counter = createMachine({
+    initial: "counting",
+    context: { count: 0 },
+    states: {
+      counting: {
+        on: {
+          INC: {
+            actions: assign(({ context }) => ({ count: context.count + 1 })),
+          },
+        },
+      },
+    },
+  });
+
+  const machine = setup({
+    // deno-lint-ignore no-explicit-any
+    types: { context: {} as { counterRef: any } },
+    actors: { counter },
+  }).createMachine({
+    initial: "idle",
+    context: { counterRef: null },
+    states: {
+      idle: {
+        on: {
+          SPAWN: {
+            target: "active",
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              counterRef: ({ spawn }: any) => spawn(counter, { id: "counter" }),
+            }),
+          },
+        },
+      },
+      active: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "SPAWN" });
+  actor.getSnapshot().context.counterRef.send({ type: "INC" });
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+  actor.stop();
+
+  assertEquals(persisted.context, { counterRef: { $$actorRef: "counter" } });
+
+  const restored = createActor(machine, { snapshot: persisted });
+  restored.start();
+
+  const counterRef = restored.getSnapshot().context.counterRef;
+  assertEquals(counterRef.getSnapshot().context, { count: 1 });
+  counterRef.send({ type: "INC" });
+  assertEquals(counterRef.getSnapshot().context, { count: 2 });
+
+  restored.stop();
+});
+
+Deno.test("Persist: restored done actors keep their output", () => {
+  const machine = createMachine({
+    initial: "working",
+    context: { total: 3 },
+    states: {
+      working: { on: { FINISH: { target: "finished" } } },
+      finished: { type: "final" },
+    },
+    output: ({ context }) => context.total,
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "FINISH" });
+  const persisted = roundTrip(actor.getPersistedSnapshot());
+
+  const restored = createActor(machine, { snapshot: persisted });
+  restored.start();
+  assertEquals(restored.getSnapshot().status, "done");
+  assertEquals(restored.getSnapshot().output, 3);
+});
@@ -0,0 +1,310 @@
+import { assertEquals } from "@std/assert";
+import {
+  assign,
+  createActor,
+  createMachine,
+  fromCallback,
+  initialTransition,
+  raise,
+  sendTo,
+  setup,
+  transition,
+} from "../src/mod.ts";
+
+Deno.test("Pure: transitions return actions instead of executing them", () => {
+  const log: string[] = [];
+
+  const machine = setup({
+    types: { context: {} as { count: number } },
+    actions: {
+      track: (_, params: { label: string }) => log.push(params.label),
+    },
+  }).createMachine({
+    initial: "idle",
+    context: { count: 0 },
+    states: {
+      idle: {
+        entry: () => log.push("entry idle"),
+        on: {
+          START: {
+            target: "running",
+            actions: [
+              assign(({ context }) => ({ count: context.count + 1 })),
+              { type: "track", params: { label: "started" } },
+            ],
+          },
+        },
+      },
+      running: {},
+    },
+  });
+
+  const [initial, initialActions] = initialTransition(machine);
+  assertEquals(initial.value, "idle");
+  assertEquals(initialActions.length, 1);
+
+  const [next, actions] = transition(machine, initial, { type: "START" });
+  assertEquals(log, []);
+  assertEquals(next.value, "running");
+  assertEquals(next.context, { count: 1 });
+  assertEquals(initial.context, { count: 0 });
+  assertEquals(actions.map(({ type, params }) => ({ type, params })), [
+    { type: "track", params: { label: "started" } },
+  ]);
+
+  actions.forEach((action) => action.exec?.());
+  assertEquals(log, ["started"]);
+});
+
+Deno.test("Pure: exec runs actions with the context they would have seen", () => {
+  const seen: number[] = [];
+
+  const machine = setup({
+    types: { context: {} as { count: number } },
+  }).createMachine({
+    initial: "active",
+    context: { count: 0 },
+    states: {
+      active: {
+        on: {
+          INC: {
+            actions: [
+              ({ context }) => seen.push(context.count),
+              assign(({ context }) => ({ count: context.count + 1 })),
+              ({ context }) => seen.push(context.count),
+            ],
+          },
+        },
+      },
+    },
+  });
+
+  const [initial] = initialTransition(machine);
+  const [, actions] = transition(machine, initial, { type: "INC" });
+  actions.forEach((action) => action.exec?.());
+  assertEquals(seen, [0, 1]);
+});
+
+Deno.test("Pure: raised events and eventless transitions complete the macrostep", () => {
+  const machine = createMachine({
+    initial: "a",
+    context: { visited: [] as string[] },
+    states: {
+      a: { on: { GO: { target: "b", actions: raise({ type: "NEXT" }) } } },
+      b: { on: { NEXT: { target: "c" } } },
+      c: {
+        entry: assign(({ context }) => ({
+          visited: [...context.visited, "c"],
+        })),
+        always: { target: "d" },
+      },
+      d: {},
+    },
+  });
+
+  const [initial] = initialTransition(machine);
+  const [next, actions] = transition(machine, initial, { type: "GO" });
+  assertEquals(next.value, "d");
+  assertEquals(next.context, { visited: ["c"] });
+  assertEquals(actions, []);
+});
+
+Deno.test("Pure: effects for other actors and timers are returned", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        invoke: { id: "worker", src: fromCallback(() => {}) },
+        after: { 1000: { target: "expired" } },
+        on: {
+          PING: {
+            actions: [
+              sendTo("worker", { type: "PING" }),
+              raise({ type: "TIMEOUT" }, { delay: 500, id: "timeout" }),
+            ],
+          },
+        },
+      },
+      expired: {},
+    },
+  });
+
+  const [initial, initialActions] = initialTransition(machine);
+  assertEquals(initialActions, []);
+
+  const [, actions] = transition(machine, initial, { type: "PING" });
+  assertEquals(actions, [
+    {
+      type: "$$sendTo",
+      to: "worker",
+      event: { type: "PING" },
+      delay: undefined,
+      id: undefined,
+    },
+    {
+      type: "$$raise",
+      event: { type: "TIMEOUT" },
+      delay: 500,
+      id: "timeout",
+    },
+  ]);
+});
+
+Deno.test("Pure: guards select transitions and can() reflects them", () => {
+  const machine = createMachine({
+    initial: "locked",
+    context: { code: "1234" },
+    states: {
+      locked: {
+        on: {
+          UNLOCK: {
+            target: "unlocked",
+            guard: ({ context, event }) => event.code === context.code,
+          },
+        },
+      },
+      unlocked: {},
+    },
+  });
+
+  const [initial] = initialTransition(machine);
+  const [wrong] = transition(machine, initial, {
+    type: "UNLOCK",
+    code: "0000",
+  });
+  assertEquals(wrong.value, "locked");
+  assertEquals(initial.can({ type: "UNLOCK", code: "1234" }), true);
+
+  const [right] = transition(machine, initial, {
+    type: "UNLOCK",
+    code: "1234",
+  });
+  assertEquals(right.value, "unlocked");
+  assertEquals(right.can({ type: "UNLOCK", code: "1234" }), false);
+});
+
+Deno.test("Pure: history is carried by snapshots", () => {
+  const machine = createMachine({
+    initial: "player",
+    states: {
+      player: {
+        initial: "paused",
+        states: {
+          paused: { on: { PLAY: { target: "playing" } } },
+          playing: {},
+          hist: { type: "history" },
+        },
+        on: { POWER: { target: "off" } },
+      },
+      off: { on: { POWER: { target: "player.hist" } } },
+    },
+  });
+
+  const [initial] = initialTransition(machine);
+  const [playing] = transition(machine, initial, { type: "PLAY" });
+  const [off] = transition(machine, playing, { type: "POWER" });
+  const [resumed] = transition(machine, off, { type: "POWER" });
+  assertEquals(resumed.value, { player: "playing" });
+});
+
+Deno.test("Pure: reaching a top-level final state completes with output", () => {
+  const machine = createMachine({
+    initial: "working",
+    context: { total: 3 },
+    states: {
+      working: { on: { FINISH: { target: "finished" } } },
+      finished: { type: "final" },
+    },
+    output: ({ context }) => context.total,
+  });
+
+  const [initial] = initialTransition(machine);
+  const [done] = transition(machine, initial, { type: "FINISH" });
+  assertEquals(done.status, "done");
+  assertEquals(done.output, 3);
+
+  const [after, actions] = transition(machine, done, { type: "FINISH" });
+  assertEquals(after.status, "done");
+  assertEquals(actions, []);
+});
+
+Deno.test("Pure: actor and persisted snapshots can be transitioned", () => {
+  const machine = createMachine({
+    initial: "idle",
+    context: { count: 0 },
+    states: {
+      idle: {
+        on: {
+          INC: {
+            actions: assign(({ context }) => ({ count: context.count + 1 })),
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "INC" });
+
+  const [fromActor] = transition(machine, actor.getSnapshot(), {
+    type: "INC",
+  });
+  assertEquals(fromActor.context, { count: 2 });
+  assertEquals(actor.getSnapshot().context, { count: 1 });
+
+  const [fromPersisted] = transition(machine, actor.getPersistedSnapshot(), {
+    type: "INC",
+  });
+  assertEquals(fromPersisted.context, { count: 2 });
+
+  actor.stop();
+});
+
+Deno.test("Pure: spawning returns a placeholder ref and a spawn action", () => {
+  const child = createMachine({ initial: "idle", states: { idle: {} } });
+
+  const machine = setup({
+    // deno-lint-ignore no-explicit-any
+    types: { context: {} as { childRef: any; workerRef: any } },
+    actors: { worker: child },
+  }).createMachine({
+    initial: "idle",
+    context: { childRef: null, workerRef: null },
+    states: {
+      idle: {
+        on: {
+          SPAWN: {
+            target: "running",
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              childRef: ({ spawn }: any) => spawn(child, { input: 1 }),
+              // deno-lint-ignore no-explicit-any
+              workerRef: ({ spawn }: any) => spawn("worker", { id: "w" }),
+            }),
+          },
+        },
+      },
+      running: {},
+    },
+  });
+
+  const [initial] = initialTransition(machine);
+  const [next, actions] = transition(machine, initial, { type: "SPAWN" });
+
+  assertEquals(next.value, "running");
+  assertEquals(
+    actions.map(({ type, id, src, input }) => ({ type, id, src, input })),
+    [
+      { type: "$$spawn", id: "spawned-0", src: child, input: 1 },
+      { type: "$$spawn", id: "w", src: "worker", input: undefined },
+    ],
+  );
+  assertEquals(actions[0].actorRef, next.context.childRef);
+  assertEquals(next.context.childRef.id, "spawned-0");
+  assertEquals(next.context.workerRef.src, "worker");
+  assertEquals(next.context.workerRef.getSnapshot().status, "stopped");
+
+  const [again] = transition(machine, initial, { type: "SPAWN" });
+  assertEquals(JSON.stringify(again.context), JSON.stringify(next.context));
+});
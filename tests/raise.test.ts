@@ -0,0 +1,204 @@
+import { assertEquals } from "@std/assert";
+import {
+  createActor,
+  createMachine,
+  createSimulatedClock,
+  raise,
+} from "../src/mod.ts";
+
+Deno.test("raise - raised event is processed after the current microstep", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "a",
+    states: {
+      a: {
+        on: {
+          GO: {
+            target: "b",
+            actions: [
+              raise({ type: "NEXT" }),
+              () => log.push("transition:a->b"),
+            ],
+          },
+        },
+        exit: () => log.push("exit:a"),
+      },
+      b: {
+        entry: () => log.push("entry:b"),
+        on: { NEXT: { target: "c" } },
+      },
+      c: {
+        entry: () => log.push("entry:c"),
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, "c");
+  assertEquals(log, ["exit:a", "transition:a->b", "entry:b", "entry:c"]);
+});
+
+Deno.test("raise - always transitions settle before raised events", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          START: { target: "checking", actions: raise({ type: "RAISED" }) },
+        },
+      },
+      checking: {
+        always: { target: "ready" },
+        on: { RAISED: { target: "wrong" } },
+      },
+      ready: {
+        on: { RAISED: { target: "done" } },
+      },
+      wrong: {},
+      done: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "START" });
+
+  assertEquals(actor.getSnapshot().value, "done");
+});
+
+Deno.test("raise - entry actions can raise events on start", () => {
+  const machine = createMachine({
+    initial: "booting",
+    states: {
+      booting: {
+        entry: raise({ type: "BOOTED" }),
+        on: { BOOTED: { target: "running" } },
+      },
+      running: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  assertEquals(actor.getSnapshot().value, "running");
+});
+
+Deno.test("raise - event can be computed from context", () => {
+  const machine = createMachine<
+    { next: string },
+    { type: "GO" } | { type: "MOVE"; to: string }
+  >({
+    initial: "a",
+    context: { next: "c" },
+    states: {
+      a: {
+        on: {
+          GO: {
+            actions: raise(({ context }) => ({
+              type: "MOVE",
+              to: context.next,
+            })),
+          },
+          MOVE: [
+            {
+              target: "b",
+              guard: ({ event }) => "to" in event && event.to === "b",
+            },
+            { target: "c" },
+          ],
+        },
+      },
+      b: {},
+      c: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, "c");
+});
+
+Deno.test("raise - delayed event is sent after the delay", () => {
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        entry: raise({ type: "TIMEOUT" }, { delay: 20 }),
+        on: { TIMEOUT: { target: "timedOut" } },
+      },
+      timedOut: {},
+    },
+  });
+
+  const clock = createSimulatedClock();
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  clock.advance(19);
+  assertEquals(actor.getSnapshot().value, "waiting");
+
+  clock.advance(1);
+  assertEquals(actor.getSnapshot().value, "timedOut");
+});
+
+Deno.test("raise - delayed event with the same id replaces the pending one", () => {
+  let saves = 0;
+
+  const machine = createMachine({
+    initial: "editing",
+    states: {
+      editing: {
+        on: {
+          CHANGE: {
+            actions: raise({ type: "SAVE" }, { delay: 20, id: "autosave" }),
+          },
+          SAVE: { actions: () => saves++ },
+        },
+      },
+    },
+  });
+
+  const clock = createSimulatedClock();
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  actor.send({ type: "CHANGE" });
+  clock.advance(10);
+  actor.send({ type: "CHANGE" });
+  actor.send({ type: "CHANGE" });
+  assertEquals(clock.pendingTimers().length, 1);
+
+  clock.advance(19);
+  assertEquals(saves, 0);
+  clock.advance(1);
+  assertEquals(saves, 1);
+  actor.stop();
+});
+
+Deno.test("raise - stopping the actor clears delayed events", () => {
+  let fired = false;
+
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        entry: raise({ type: "PING" }, { delay: 10 }),
+        on: { PING: { actions: () => (fired = true) } },
+      },
+    },
+  });
+
+  const clock = createSimulatedClock();
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  actor.stop();
+
+  assertEquals(clock.pendingTimers(), []);
+  clock.advance(10);
+  assertEquals(fired, false);
+});
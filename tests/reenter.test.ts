@@ -0,0 +1,220 @@
+import { assertEquals } from "@std/assert";
+import { createActor, createMachine, fromCallback } from "../src/mod.ts";
+
+const createLoggingMachine = (log: string[], reenter?: boolean) =>
+  createMachine({
+    initial: "parent",
+    states: {
+      parent: {
+        initial: "child",
+        entry: () => log.push("entry parent"),
+        exit: () => log.push("exit parent"),
+        states: {
+          child: {
+            entry: () => log.push("entry child"),
+            exit: () => log.push("exit child"),
+            on: {
+              SELF: { target: "child", reenter },
+              UP: { target: "#machine.parent", reenter },
+              NONE: { actions: () => log.push("action"), reenter },
+            },
+          },
+        },
+      },
+    },
+    id: "machine",
+  });
+
+Deno.test("Reenter: reenter false keeps a self-targeted state active", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, false));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "SELF" });
+  assertEquals(log, []);
+  assertEquals(actor.getSnapshot().value, { parent: "child" });
+});
+
+Deno.test("Reenter: reenter true exits and re-enters a self-targeted state", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, true));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "SELF" });
+  assertEquals(log, ["exit child", "entry child"]);
+});
+
+Deno.test("Reenter: reenter true exits and re-enters a targeted ancestor", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, true));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "UP" });
+  assertEquals(log, [
+    "exit child",
+    "exit parent",
+    "entry parent",
+    "entry child",
+  ]);
+});
+
+Deno.test("Reenter: self-targeted states are re-entered by default", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "SELF" });
+  assertEquals(log, ["exit child", "entry child"]);
+  assertEquals(actor.getSnapshot().value, { parent: "child" });
+});
+
+Deno.test("Reenter: reenter false on a self-target resets the children of a compound state", () => {
+  const log: string[] = [];
+  const machine = createMachine({
+    initial: "parent",
+    states: {
+      parent: {
+        initial: "a",
+        entry: () => log.push("entry parent"),
+        exit: () => log.push("exit parent"),
+        on: { RESET: { target: "parent", reenter: false } },
+        states: {
+          a: { on: { NEXT: "b" } },
+          b: { exit: () => log.push("exit b") },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "NEXT" });
+  log.length = 0;
+
+  actor.send({ type: "RESET" });
+  assertEquals(log, ["exit b"]);
+  assertEquals(actor.getSnapshot().value, { parent: "a" });
+});
+
+Deno.test("Reenter: ancestor targets are not re-entered by default", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "UP" });
+  assertEquals(log, ["exit child", "entry child"]);
+});
+
+Deno.test("Reenter: reenter false still re-enters a targeted ancestor", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, false));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "UP" });
+  assertEquals(log, [
+    "exit child",
+    "exit parent",
+    "entry parent",
+    "entry child",
+  ]);
+});
+
+Deno.test("Reenter: targetless transitions with reenter false only run actions", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, false));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "NONE" });
+  assertEquals(log, ["action"]);
+});
+
+Deno.test("Reenter: targetless transitions do not re-enter by default", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "NONE" });
+  assertEquals(log, ["action"]);
+});
+
+Deno.test("Reenter: targetless transitions with reenter true only run actions", () => {
+  const log: string[] = [];
+  const actor = createActor(createLoggingMachine(log, true));
+  actor.start();
+  log.length = 0;
+
+  actor.send({ type: "NONE" });
+  assertEquals(log, ["action"]);
+});
+
+Deno.test("Reenter: re-entering a state restarts its invocations", () => {
+  let starts = 0;
+  let stops = 0;
+
+  const machine = createMachine({
+    initial: "polling",
+    states: {
+      polling: {
+        invoke: {
+          src: fromCallback(() => {
+            starts++;
+            return () => {
+              stops++;
+            };
+          }),
+        },
+        on: {
+          RESTART: { target: "polling", reenter: true },
+          KEEP: { target: "polling", reenter: false },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  assertEquals([starts, stops], [1, 0]);
+
+  actor.send({ type: "KEEP" });
+  assertEquals([starts, stops], [1, 0]);
+
+  actor.send({ type: "RESTART" });
+  assertEquals([starts, stops], [2, 1]);
+
+  actor.stop();
+});
+
+Deno.test("Reenter: re-entering a state restarts its after timers", async () => {
+  let timeouts = 0;
+
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        after: { 30: { actions: () => timeouts++ } },
+        on: { RESET: { target: "waiting", reenter: true } },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  actor.send({ type: "RESET" });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assertEquals(timeouts, 0);
+
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assertEquals(timeouts, 1);
+
+  actor.stop();
+});
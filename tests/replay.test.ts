@@ -0,0 +1,314 @@
+import { assertEquals } from "@std/assert";
+import {
+  assign,
+  createActor,
+  createCounterServices,
+  createMachine,
+  createRecorder,
+  createSimulatedClock,
+  fromCallback,
+  fromPromise,
+  type JournalEntry,
+  raise,
+  replay,
+  setup,
+} from "../src/mod.ts";
+import type { ActorLogic, EventObject } from "../src/core/types.ts";
+
+// Journals are attached to bug reports as JSON
+function roundTrip(journal: JournalEntry[]): JournalEntry[] {
+  return JSON.parse(JSON.stringify(journal));
+}
+
+const worker = createMachine({ initial: "idle", states: { idle: {} } });
+
+const createSessionMachine = (limit: number) =>
+  setup({
+    // deno-lint-ignore no-explicit-any
+    types: { context: {} as { attempts: number; worker: any } },
+  }).createMachine({
+    initial: "idle",
+    context: { attempts: 0, worker: null },
+    states: {
+      idle: {
+        on: {
+          LOGIN: {
+            target: "checking",
+            // deno-lint-ignore no-explicit-any
+            actions: assign(({ context, spawn }: any) => ({
+              attempts: context.attempts + 1,
+              worker: context.worker ?? spawn(worker),
+            })),
+          },
+        },
+      },
+      checking: {
+        entry: raise({ type: "CHECKED" }, { delay: 50 }),
+        on: {
+          CHECKED: [
+            {
+              target: "locked",
+              guard: ({ context }) => context.attempts >= limit,
+            },
+            { target: "idle" },
+          ],
+        },
+      },
+      locked: { after: { 1000: { target: "idle" } } },
+    },
+  });
+
+function recordSession() {
+  const clock = createSimulatedClock(0, createCounterServices());
+  const recorder = createRecorder(clock);
+  const actor = recorder.record(
+    createActor(createSessionMachine(2), { services: recorder.services }),
+  );
+
+  actor.start();
+  actor.send({ type: "LOGIN" });
+  clock.advance(50);
+  actor.send({ type: "LOGIN" });
+  clock.advance(50);
+  clock.advance(1000);
+  const snapshots = recorder.journal.filter(({ type }) => type === "snapshot");
+  actor.stop();
+
+  return { journal: roundTrip(recorder.journal), snapshots };
+}
+
+Deno.test("Replay: journal records events, service calls and timer firings", () => {
+  const { journal } = recordSession();
+  const types = journal.map(({ type }) => type);
+
+  assertEquals(types[0], "start");
+  assertEquals(types.at(-2), "stop");
+  assertEquals(types.filter((type) => type === "event").length, 2);
+  assertEquals(types.filter((type) => type === "timer").length, 3);
+  assertEquals(
+    journal.find((entry) => entry.type === "generateId"),
+    { type: "generateId", prefix: "spawned", result: "spawned-0" },
+  );
+});
+
+Deno.test("Replay: replaying a journal reproduces the snapshot sequence", () => {
+  const { journal, snapshots } = recordSession();
+
+  const result = replay(createSessionMachine(2), journal);
+  assertEquals(result.divergence, undefined);
+  assertEquals(
+    result.snapshots.slice(0, snapshots.length),
+    snapshots.map((entry) => (entry as { snapshot: unknown }).snapshot),
+  );
+  assertEquals(result.snapshots.map(({ value }) => value), [
+    "idle",
+    "checking",
+    "idle",
+    "checking",
+    "locked",
+    "idle",
+    "idle",
+  ]);
+  assertEquals(result.snapshots[1].context, {
+    attempts: 1,
+    worker: { $$actorRef: "spawned-0" },
+  });
+});
+
+Deno.test("Replay: the first divergence is reported", () => {
+  const { journal } = recordSession();
+
+  // With a higher limit the second check goes back to idle, without the
+  // now() call that scheduled the locked state's timer
+  const { divergence, snapshots } = replay(createSessionMachine(3), journal);
+  assertEquals(journal[divergence!.index - 1], { type: "timer", timer: 2 });
+  assertEquals(divergence?.expected, { type: "now", result: 100 });
+  assertEquals(divergence?.actual, {
+    type: "snapshot",
+    snapshot: {
+      value: "idle",
+      context: { attempts: 2, worker: { $$actorRef: "spawned-0" } },
+      status: "active",
+    },
+  });
+  assertEquals(snapshots.at(-1)?.value, "idle");
+});
+
+Deno.test("Replay: timers that the replay did not schedule are a divergence", () => {
+  const { journal } = recordSession();
+  const index = journal.findIndex(({ type }) => type === "timer");
+  const edited = [
+    ...journal.slice(0, index),
+    { type: "timer", timer: 99 } as JournalEntry,
+  ];
+
+  const { divergence } = replay(createSessionMachine(2), edited);
+  assertEquals(divergence, {
+    index,
+    expected: { type: "timer", timer: 99 },
+  });
+});
+
+Deno.test("Replay: events sent while the actor is busy are replayed in order", () => {
+  const machine = createMachine({
+    initial: "a",
+    states: {
+      a: { on: { NEXT: { target: "b" } } },
+      b: { on: { NEXT: { target: "c" } } },
+      c: {},
+    },
+  });
+
+  const recorder = createRecorder(createCounterServices());
+  const actor = recorder.record(
+    createActor(machine, { services: recorder.services }),
+  );
+  actor.subscribe((snapshot) => {
+    if (snapshot.value === "b") actor.send({ type: "NEXT" });
+  });
+  actor.start();
+  actor.send({ type: "NEXT" });
+  assertEquals(actor.getSnapshot().value, "c");
+
+  const result = replay(machine, roundTrip(recorder.journal));
+  assertEquals(result.divergence, undefined);
+  assertEquals(result.snapshots.map(({ value }) => value), ["a", "b", "c"]);
+});
+
+Deno.test("Replay: promise results are replayed without running the promise", async () => {
+  let calls = 0;
+  const machine = createMachine<{ quote: number | null }, EventObject>({
+    initial: "loading",
+    context: { quote: null },
+    states: {
+      loading: {
+        invoke: {
+          id: "quote",
+          src: fromPromise(() => Promise.resolve(++calls * 100)) as ActorLogic<
+            unknown,
+            unknown,
+            EventObject
+          >,
+          onDone: {
+            target: "ready",
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              quote: ({ event }: any) => event.output,
+            }),
+          },
+        },
+      },
+      ready: {},
+    },
+  });
+
+  const recorder = createRecorder(createCounterServices());
+  const actor = recorder.record(
+    createActor(machine, {
+      services: recorder.services,
+      onChildEvent: recorder.onChildEvent,
+    }),
+  );
+  actor.start();
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(actor.getSnapshot().context.quote, 100);
+
+  const journal = roundTrip(recorder.journal);
+  assertEquals(journal.find(({ type }) => type === "childEvent"), {
+    type: "childEvent",
+    childId: "quote",
+    event: { type: "done.invoke.quote", output: 100 },
+  });
+
+  const result = replay(machine, journal);
+  assertEquals(result.divergence, undefined);
+  assertEquals(result.snapshots.map(({ value }) => value), [
+    "loading",
+    "ready",
+  ]);
+  assertEquals(result.snapshots[1].context, { quote: 100 });
+  assertEquals(calls, 1);
+  actor.stop();
+});
+
+Deno.test("Replay: events sent back by callback actors are replayed", () => {
+  let started = 0;
+  const machine = createMachine({
+    initial: "connecting",
+    states: {
+      connecting: {
+        invoke: {
+          id: "socket",
+          src: fromCallback(({ sendBack }) => {
+            started++;
+            sendBack({ type: "OPEN" });
+          }),
+        },
+        on: { OPEN: { target: "open" } },
+      },
+      open: {},
+    },
+  });
+
+  const recorder = createRecorder(createCounterServices());
+  const actor = recorder.record(
+    createActor(machine, {
+      services: recorder.services,
+      onChildEvent: recorder.onChildEvent,
+    }),
+  );
+  actor.start();
+  assertEquals(actor.getSnapshot().value, "open");
+
+  const result = replay(machine, roundTrip(recorder.journal));
+  assertEquals(result.divergence, undefined);
+  assertEquals(result.snapshots.map(({ value }) => value), [
+    "connecting",
+    "open",
+  ]);
+  assertEquals(started, 1);
+});
+
+Deno.test("Replay: invoked machines run their own callback actors again", () => {
+  let started = 0;
+  const child = createMachine({
+    initial: "connecting",
+    states: {
+      connecting: {
+        invoke: {
+          id: "socket",
+          src: fromCallback(({ sendBack }) => {
+            started++;
+            sendBack({ type: "OPEN" });
+          }),
+        },
+        on: { OPEN: { target: "open" } },
+      },
+      open: { type: "final" },
+    },
+  });
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: {
+        invoke: { id: "child", src: child, onDone: { target: "ready" } },
+      },
+      ready: {},
+    },
+  });
+
+  const recorder = createRecorder(createCounterServices());
+  const actor = recorder.record(
+    createActor(machine, {
+      services: recorder.services,
+      onChildEvent: recorder.onChildEvent,
+    }),
+  );
+  actor.start();
+  assertEquals(actor.getSnapshot().value, "ready");
+
+  const result = replay(machine, roundTrip(recorder.journal));
+  assertEquals(result.divergence, undefined);
+  assertEquals(result.snapshots.at(-1)?.value, "ready");
+  assertEquals(started, 2);
+});
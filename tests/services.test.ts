@@ -4,14 +4,18 @@
 
 import { assertEquals, assertNotEquals } from "jsr:@std/assert";
 import {
+  assign,
   createActor,
   createCounterServices,
   createDeterministicServices,
   createMachine,
+  createSimulatedClock,
   fromCallback,
   resetServices,
   setServices,
+  setup,
   withServices,
+  withServicesAsync,
 } from "../src/mod.ts";
 import type { EventObject } from "../src/mod.ts";
 
@@ -89,44 +93,52 @@ Deno.test("Services: setServices and resetServices work correctly", () => {
   resetServices();
 });
 
-Deno.test("Services: Machine uses services for invoke IDs", async () => {
+Deno.test("Services: generated invoke IDs are derived from the state path", async () => {
   interface Events extends EventObject {
-    type: "DONE" | "done.invoke.invoked-0";
+    type: "DONE" | "done.invoke.loading:invocation[0]";
   }
 
-  const machine = createMachine<{ result: string }, Events>({
-    id: "test",
-    initial: "loading",
-    context: { result: "" },
-    states: {
-      loading: {
-        invoke: {
-          // No ID specified - will be generated
-          src: fromCallback(({ sendBack }) => {
-            sendBack({ type: "done.invoke.invoked-0" } as Events);
-          }),
-        },
-        on: {
-          "done.invoke.invoked-0": { target: "done" },
+  const createLoadingMachine = () =>
+    createMachine<{ result: string }, Events>({
+      id: "test",
+      initial: "loading",
+      context: { result: "" },
+      states: {
+        loading: {
+          invoke: {
+            // No ID specified - will be generated from the state path
+            src: fromCallback(({ sendBack }) => {
+              sendBack({ type: "done.invoke.loading:invocation[0]" } as Events);
+            }),
+          },
+          on: {
+            "done.invoke.loading:invocation[0]": { target: "done" },
+          },
         },
+        done: {},
       },
-      done: {},
-    },
-  });
-
-  // Use counter services so we know the invoke ID will be "invoked-0"
-  await withServices(createCounterServices(), async () => {
-    const actor = createActor(machine);
-    actor.start();
-
-    // Wait a tick for the callback to fire
-    await new Promise((resolve) => setTimeout(resolve, 10));
-
-    const snapshot = actor.getSnapshot();
-    assertEquals(snapshot.value, "done");
+    });
 
-    actor.stop();
-  });
+  // IDs don't depend on services or on how many machines were created
+  createLoadingMachine();
+  const machine = withServices(
+    createCounterServices(),
+    () => createLoadingMachine(),
+  );
+  const invoke = machine.config.states.loading.invoke;
+  assertEquals(
+    Array.isArray(invoke) ? undefined : invoke?.id,
+    "loading:invocation[0]",
+  );
+
+  const actor = createActor(machine);
+  actor.start();
+
+  // Wait a tick for the callback to fire
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  assertEquals(actor.getSnapshot().value, "done");
+  actor.stop();
 });
 
 Deno.test("Services: Deterministic replay of state machine", () => {
@@ -206,3 +218,115 @@ Deno.test("Services: now() returns seed-based timestamps with deterministic serv
 
   services.dispose?.();
 });
+
+Deno.test("Services: simulated clock fires timers in due order when advanced", () => {
+  const clock = createSimulatedClock(1000);
+  const fired: string[] = [];
+
+  clock.setTimeout(() => fired.push(`b@${clock.now()}`), 20);
+  clock.setTimeout(() => fired.push(`a@${clock.now()}`), 10);
+  const cancelled = clock.setTimeout(() => fired.push("cancelled"), 15);
+  clock.clearTimeout(cancelled);
+
+  assertEquals(clock.pendingTimers().map(({ due }) => due), [1010, 1020]);
+
+  clock.advance(15);
+  assertEquals(fired, ["a@1010"]);
+  assertEquals(clock.now(), 1015);
+
+  clock.advance(5);
+  assertEquals(fired, ["a@1010", "b@1020"]);
+  assertEquals(clock.pendingTimers(), []);
+});
+
+Deno.test("Services: simulated clock runAll fires timers scheduled by timers", () => {
+  const clock = createSimulatedClock();
+  const fired: number[] = [];
+
+  clock.setTimeout(() => {
+    fired.push(clock.now());
+    clock.setTimeout(() => fired.push(clock.now()), 50);
+  }, 100);
+
+  clock.runAll();
+  assertEquals(fired, [100, 150]);
+  assertEquals(clock.now(), 150);
+});
+
+Deno.test("Services: simulated clock delegates ID generation", () => {
+  const clock = createSimulatedClock(0, createCounterServices());
+
+  assertEquals(clock.generateId("actor"), "actor-0");
+  assertEquals(clock.generateId("actor"), "actor-1");
+});
+
+Deno.test("Services: actors use their own services and pass them to children", () => {
+  const clock = createSimulatedClock(0, createCounterServices());
+
+  const child = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: { after: { 100: { target: "done" } } },
+      done: { type: "final" },
+    },
+  });
+
+  const machine = setup({
+    // deno-lint-ignore no-explicit-any
+    types: { context: {} as { spawned: any } },
+  }).createMachine({
+    initial: "running",
+    context: { spawned: null },
+    states: {
+      running: {
+        invoke: { src: child, onDone: { target: "finished" } },
+        on: {
+          SPAWN: {
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              spawned: ({ spawn }: any) => spawn(child),
+            }),
+          },
+        },
+      },
+      finished: {},
+    },
+  });
+
+  const actor = createActor(machine, { services: clock });
+  actor.start();
+  actor.send({ type: "SPAWN" });
+
+  assertEquals(actor.getSnapshot().context.spawned.id, "spawned-0");
+  assertEquals(clock.pendingTimers().length, 2);
+
+  clock.advance(100);
+  assertEquals(actor.getSnapshot().value, "finished");
+  assertEquals(
+    actor.getSnapshot().context.spawned.getSnapshot().value,
+    "done",
+  );
+
+  actor.stop();
+});
+
+Deno.test("Services: actors with their own services ignore the global services", async () => {
+  const clock = createSimulatedClock();
+  const machine = createMachine({
+    initial: "waiting",
+    states: {
+      waiting: { after: { 1000: { target: "expired" } } },
+      expired: {},
+    },
+  });
+
+  const actor = createActor(machine, { services: clock });
+  await withServicesAsync(createCounterServices(), async () => {
+    actor.start();
+    await Promise.resolve();
+  });
+
+  assertEquals(clock.pendingTimers().map(({ due }) => due), [1000]);
+  clock.advance(1000);
+  assertEquals(actor.getSnapshot().value, "expired");
+});
@@ -3,7 +3,13 @@
  */
 
 import { assertEquals } from "@std/assert";
-import { assign, createActor, setup } from "../src/mod.ts";
+import {
+  assign,
+  createActor,
+  fromPromise,
+  setup,
+  waitFor,
+} from "../src/mod.ts";
 
 Deno.test("setup - creates machine with named actions", () => {
   const events: string[] = [];
@@ -124,3 +130,156 @@ Deno.test("machine.provide - overrides implementations", () => {
   customActor.send({ type: "GREET" });
   assertEquals(events, ["Hola"]);
 });
+
+Deno.test("setup - resolves string actor sources from actors", async () => {
+  const machine = setup<
+    { user?: string },
+    { type: "LOAD" } | { type: "done.invoke.user"; output: string }
+  >({
+    actors: {
+      fetchUser: fromPromise(() => Promise.resolve("Ada")),
+    },
+  }).createMachine({
+    initial: "idle",
+    context: {},
+    states: {
+      idle: {
+        on: { LOAD: { target: "loading" } },
+      },
+      loading: {
+        invoke: {
+          id: "user",
+          src: "fetchUser",
+          onDone: {
+            target: "loaded",
+            actions: assign(({ event }) => ({
+              user: (event as { output: string }).output,
+            })),
+          },
+        },
+      },
+      loaded: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "LOAD" });
+
+  const snapshot = await waitFor(actor, (state) => state.matches("loaded"));
+  assertEquals(snapshot.context.user, "Ada");
+});
+
+Deno.test("setup - provide() overrides named actors", async () => {
+  const baseMachine = setup<
+    { user: string },
+    { type: "done.invoke.fetchUser"; output: string }
+  >({
+    actors: {
+      fetchUser: fromPromise(() => Promise.resolve("Ada")),
+    },
+  }).createMachine({
+    initial: "loading",
+    context: { user: "" },
+    states: {
+      loading: {
+        invoke: {
+          id: "fetchUser",
+          src: "fetchUser",
+          onDone: {
+            target: "loaded",
+            actions: assign(({ event }) => ({
+              user: (event as { output: string }).output,
+            })),
+          },
+        },
+      },
+      loaded: {},
+    },
+  });
+
+  const testMachine = baseMachine.provide({
+    actors: {
+      fetchUser: fromPromise(() => Promise.resolve("Grace")),
+    },
+  });
+
+  const actor = createActor(testMachine);
+  actor.start();
+
+  const snapshot = await waitFor(actor, (state) => state.matches("loaded"));
+  assertEquals(snapshot.context.user, "Grace");
+});
+
+Deno.test("setup - passes params to named actions", () => {
+  const tracked: string[] = [];
+
+  const machine = setup({
+    types: {
+      context: {} as { count: number },
+      events: {} as { type: "CHECKOUT" } | { type: "ADD"; amount: number },
+    },
+    actions: {
+      track: (_, params: { event: string }) => {
+        tracked.push(params.event);
+      },
+      add: assign(({ context }, params: { by: number }) => ({
+        count: context.count + params.by,
+      })),
+    },
+  }).createMachine({
+    initial: "cart",
+    context: { count: 0 },
+    states: {
+      cart: {
+        on: {
+          ADD: {
+            actions: {
+              type: "add",
+              params: ({ event }) => ({
+                by: event.type === "ADD" ? event.amount : 0,
+              }),
+            },
+          },
+          CHECKOUT: {
+            target: "paid",
+            actions: { type: "track", params: { event: "checkout" } },
+          },
+        },
+      },
+      paid: {
+        entry: { type: "track", params: { event: "paid" } },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "ADD", amount: 3 });
+  actor.send({ type: "CHECKOUT" });
+
+  assertEquals(tracked, ["checkout", "paid"]);
+  assertEquals(actor.getSnapshot().context.count, 3);
+});
+
+Deno.test("setup - checks named action params against implementations", () => {
+  const machineSetup = setup({
+    actions: {
+      track: (_, _params: { event: string }) => {},
+    },
+  });
+
+  machineSetup.createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        // @ts-expect-error params must match the implementation
+        entry: { type: "track", params: { event: 42 } },
+      },
+      other: {
+        // @ts-expect-error unknown named action
+        entry: { type: "untracked" },
+      },
+    },
+  });
+});
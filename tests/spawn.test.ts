@@ -1,5 +1,12 @@
 import { assertEquals } from "@std/assert";
-import { assign, createActor, createMachine } from "../src/mod.ts";
+import {
+  assign,
+  createActor,
+  createMachine,
+  fromCallback,
+  fromPromise,
+  setup,
+} from "../src/mod.ts";
 
 Deno.test("spawn - basic spawned actor lifecycle", () => {
   const _childMachine = createMachine<
@@ -114,3 +121,53 @@ Deno.test("spawn - cleanup on parent stop", () => {
   // After stop, spawned actors should be cleaned up
   // (This will be validated when we implement full spawn support)
 });
+
+Deno.test("spawn - resolves string sources through setup actors", async () => {
+  const machine = setup<
+    // deno-lint-ignore no-explicit-any
+    { tickerRef: any; loaderRef: any; ticks: number },
+    { type: "SPAWN" } | { type: "TICK" }
+  >({
+    actors: {
+      ticker: fromCallback(({ sendBack }) => {
+        sendBack({ type: "TICK" });
+      }),
+      loader: fromPromise(() => Promise.resolve(42)),
+    },
+  }).createMachine({
+    context: { tickerRef: null, loaderRef: null, ticks: 0 },
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          SPAWN: {
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              tickerRef: ({ spawn }: any) => spawn("ticker", { id: "ticker" }),
+              // deno-lint-ignore no-explicit-any
+              loaderRef: ({ spawn }: any) => spawn("loader", { id: "loader" }),
+            }),
+          },
+          TICK: {
+            actions: assign({ ticks: ({ context }) => context.ticks + 1 }),
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "SPAWN" });
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.status, "active");
+  assertEquals(snapshot.context.ticks, 1);
+  assertEquals(snapshot.context.tickerRef.src, "ticker");
+  assertEquals(snapshot.context.loaderRef.src, "loader");
+
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(snapshot.context.loaderRef.getSnapshot().output, 42);
+
+  actor.stop();
+});
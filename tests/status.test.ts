@@ -0,0 +1,104 @@
+import { assertEquals } from "@std/assert";
+import { assign, createActor, createMachine } from "../src/mod.ts";
+import type { StateSnapshot } from "../src/mod.ts";
+
+Deno.test("Status: a running actor is active", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: { idle: {} },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.status, "active");
+  assertEquals(snapshot.output, undefined);
+  assertEquals(snapshot.error, undefined);
+});
+
+Deno.test("Status: reaching a top-level final state sets done and output", () => {
+  const machine = createMachine({
+    initial: "working",
+    context: { result: 0 },
+    states: {
+      working: {
+        on: {
+          FINISH: {
+            target: "finished",
+            actions: assign({ result: 42 }),
+          },
+        },
+      },
+      finished: { type: "final" },
+    },
+    output: ({ context }) => context.result,
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "FINISH" });
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.status, "done");
+  assertEquals(snapshot.output, 42);
+});
+
+Deno.test("Status: an unhandled error sets error and stops processing", () => {
+  const failure = new Error("boom");
+  const statuses: string[] = [];
+
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          FAIL: {
+            actions: () => {
+              throw failure;
+            },
+          },
+          NEXT: { target: "next" },
+        },
+      },
+      next: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.subscribe((snapshot) => statuses.push(snapshot.status));
+  actor.start();
+
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    actor.send({ type: "FAIL" });
+  } finally {
+    console.error = originalError;
+  }
+
+  const snapshot = actor.getSnapshot();
+  assertEquals(snapshot.status, "error");
+  assertEquals(snapshot.error, failure);
+  assertEquals(statuses, ["active", "error"]);
+
+  // Events sent after the error are ignored
+  actor.send({ type: "NEXT" });
+  assertEquals(actor.getSnapshot().value, "idle");
+});
+
+Deno.test("Status: stop() sets stopped and notifies observers", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: { idle: {} },
+  });
+
+  const actor = createActor(machine);
+  let last: StateSnapshot<unknown> | undefined;
+  actor.subscribe((snapshot) => (last = snapshot));
+  actor.start();
+  actor.stop();
+
+  assertEquals(last?.status, "stopped");
+  assertEquals(actor.getSnapshot().status, "stopped");
+});
@@ -0,0 +1,227 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import {
+  assign,
+  createActor,
+  createMachine,
+  fromCallback,
+  sendTo,
+} from "../src/mod.ts";
+
+const createInboxMachine = () =>
+  createMachine({
+    initial: "listening",
+    context: { messages: [] as string[] },
+    states: {
+      listening: {
+        on: {
+          MESSAGE: {
+            actions: assign(({ context, event }) => ({
+              messages: [...context.messages, event.text as string],
+            })),
+          },
+        },
+      },
+    },
+  });
+
+Deno.test("System: actors are registered under their systemId", () => {
+  const machine = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: { id: "inbox", systemId: "mail", src: createInboxMachine() },
+        on: { STOP: { target: "stopped" } },
+      },
+      stopped: {},
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+
+  assertEquals(actor.system.get("mail")?.id, "inbox");
+
+  actor.send({ type: "STOP" });
+  assertEquals(actor.system.get("mail"), undefined);
+});
+
+Deno.test("System: sendTo addresses siblings by system ID", () => {
+  const sender = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          SEND: { actions: sendTo("mail", { type: "MESSAGE", text: "hi" }) },
+        },
+      },
+    },
+  });
+
+  const machine = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: [
+          { id: "inbox", systemId: "mail", src: createInboxMachine() },
+          { id: "sender", src: sender },
+        ],
+        on: { SEND: { actions: sendTo("sender", { type: "SEND" }) } },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "SEND" });
+
+  assertEquals(actor.system.get("mail")?.getSnapshot().context, {
+    messages: ["hi"],
+  });
+});
+
+Deno.test("System: sendTo accepts actor refs, also computed from context", () => {
+  const inbox = createActor(createInboxMachine());
+  inbox.start();
+
+  const machine = createMachine({
+    initial: "idle",
+    // deno-lint-ignore no-explicit-any
+    context: { inboxRef: null as any },
+    states: {
+      idle: {
+        on: {
+          DIRECT: { actions: sendTo(inbox, { type: "MESSAGE", text: "a" }) },
+          SPAWN: {
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              inboxRef: ({ spawn }: any) => spawn(createInboxMachine()),
+            }),
+          },
+          FROM_CONTEXT: {
+            actions: sendTo(
+              // deno-lint-ignore no-explicit-any
+              ({ context }: any) => context.inboxRef,
+              { type: "MESSAGE", text: "b" },
+            ),
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "DIRECT" });
+  actor.send({ type: "SPAWN" });
+  actor.send({ type: "FROM_CONTEXT" });
+
+  assertEquals(inbox.getSnapshot().context, { messages: ["a"] });
+  assertEquals(
+    actor.getSnapshot().context.inboxRef.getSnapshot().context,
+    { messages: ["b"] },
+  );
+});
+
+Deno.test("System: the actor hierarchy can be walked from the root", () => {
+  const child = createMachine({
+    initial: "active",
+    states: {
+      active: {
+        invoke: {
+          id: "ticker",
+          systemId: "ticker",
+          src: fromCallback(() => {}),
+        },
+      },
+    },
+  });
+
+  const machine = createMachine({
+    id: "app",
+    initial: "running",
+    states: {
+      running: { invoke: { id: "child", systemId: "child", src: child } },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  const { system } = actor;
+
+  assertStrictEquals(system.root, actor);
+  assertEquals(system.getParent(actor), undefined);
+
+  const [childRef] = system.getChildren(actor);
+  assertStrictEquals(childRef, system.get("child"));
+  assertStrictEquals(system.getParent(childRef), actor);
+
+  const [tickerRef] = system.getChildren(childRef);
+  assertStrictEquals(tickerRef, system.get("ticker"));
+  assertEquals(tickerRef.id, "ticker");
+
+  actor.stop();
+  assertEquals(system.getChildren(actor), []);
+  assertEquals(system.get("ticker"), undefined);
+});
+
+Deno.test("System: spawned actors can be registered with a systemId", () => {
+  const machine = createMachine({
+    initial: "idle",
+    // deno-lint-ignore no-explicit-any
+    context: { ref: null as any },
+    states: {
+      idle: {
+        on: {
+          SPAWN: {
+            actions: assign({
+              // deno-lint-ignore no-explicit-any
+              ref: ({ spawn }: any) =>
+                spawn(createInboxMachine(), { systemId: "spawned-inbox" }),
+            }),
+          },
+          SEND: {
+            actions: sendTo("spawned-inbox", { type: "MESSAGE", text: "c" }),
+          },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "SPAWN" });
+  actor.send({ type: "SEND" });
+
+  assertEquals(
+    actor.system.get("spawned-inbox")?.getSnapshot().context,
+    { messages: ["c"] },
+  );
+});
+
+Deno.test("System: duplicate system IDs are an error", () => {
+  const machine = createMachine({
+    initial: "running",
+    states: {
+      running: {
+        invoke: [
+          { systemId: "inbox", src: createInboxMachine() },
+          { systemId: "inbox", src: createInboxMachine() },
+        ],
+      },
+    },
+  });
+
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    const actor = createActor(machine);
+    actor.start();
+    assertEquals(actor.getSnapshot().status, "error");
+    assertEquals(
+      (actor.getSnapshot().error as Error).message,
+      'Actor with system ID "inbox" already exists',
+    );
+  } finally {
+    console.error = originalError;
+  }
+});
@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import { createActor, createMachine } from "../src/mod.ts";
+
+const machine = createMachine({
+  initial: "idle",
+  states: {
+    idle: {
+      meta: { title: "Ready" },
+      on: { SUBMIT: { target: "submitting" } },
+    },
+    submitting: {
+      type: "parallel",
+      tags: ["busy"],
+      meta: { title: "Submitting" },
+      states: {
+        upload: {
+          initial: "sending",
+          states: {
+            sending: {
+              tags: ["loading", "busy"],
+              meta: { progress: true },
+            },
+          },
+        },
+        validation: {
+          initial: "checking",
+          states: {
+            checking: { tags: ["loading"] },
+          },
+        },
+      },
+    },
+  },
+});
+
+Deno.test("Tags: snapshot.tags is the union of active node tags", () => {
+  const actor = createActor(machine);
+  actor.start();
+  assertEquals(actor.getSnapshot().tags, new Set());
+
+  actor.send({ type: "SUBMIT" });
+  assertEquals(actor.getSnapshot().tags, new Set(["busy", "loading"]));
+});
+
+Deno.test("Tags: hasTag checks the active nodes", () => {
+  const actor = createActor(machine);
+  actor.start();
+  assertEquals(actor.getSnapshot().hasTag("loading"), false);
+
+  actor.send({ type: "SUBMIT" });
+  assertEquals(actor.getSnapshot().hasTag("loading"), true);
+  assertEquals(actor.getSnapshot().hasTag("done"), false);
+});
+
+Deno.test("Meta: getMeta returns meta of active nodes keyed by path", () => {
+  const actor = createActor(machine);
+  actor.start();
+  assertEquals(actor.getSnapshot().getMeta(), { idle: { title: "Ready" } });
+
+  actor.send({ type: "SUBMIT" });
+  assertEquals(actor.getSnapshot().getMeta(), {
+    submitting: { title: "Submitting" },
+    "submitting.upload.sending": { progress: true },
+  });
+});
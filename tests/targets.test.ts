@@ -0,0 +1,291 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createActor, createMachine } from "../src/mod.ts";
+
+Deno.test("Targets: #id targets a state by its declared ID", () => {
+  const machine = createMachine({
+    initial: "editing",
+    states: {
+      editing: {
+        initial: "draft",
+        states: {
+          draft: {
+            on: { PUBLISH: { target: "#published" } },
+          },
+        },
+      },
+      review: {
+        initial: "pending",
+        states: {
+          pending: {},
+          approved: { id: "published" },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "PUBLISH" });
+
+  assertEquals(actor.getSnapshot().value, { review: "approved" });
+});
+
+Deno.test("Targets: #machine.path resolves from the machine root", () => {
+  const machine = createMachine({
+    id: "player",
+    initial: "media",
+    states: {
+      media: {
+        type: "parallel",
+        states: {
+          video: {
+            initial: "playing",
+            states: {
+              playing: {
+                on: { STOP: { target: "#player.stopped" } },
+              },
+            },
+          },
+          audio: {
+            initial: "on",
+            states: { on: {} },
+          },
+        },
+      },
+      stopped: {},
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "STOP" });
+
+  assertEquals(actor.getSnapshot().value, "stopped");
+});
+
+Deno.test("Targets: machines without an id are addressed as #root", () => {
+  const machine = createMachine({
+    initial: "editing",
+    states: {
+      editing: {
+        initial: "draft",
+        states: {
+          draft: { on: { DONE: { target: "#root.published" } } },
+        },
+      },
+      published: {},
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "DONE" });
+  assertEquals(actor.getSnapshot().value, "published");
+
+  assertThrows(
+    () =>
+      createMachine({
+        id: "editor",
+        initial: "a",
+        states: {
+          a: { on: { GO: { target: "#root.b" } } },
+          b: {},
+        },
+      }),
+    Error,
+    'Target "#root.b" in state "a" could not be resolved',
+  );
+});
+
+Deno.test("Targets: #id.child resolves relative to the identified state", () => {
+  const machine = createMachine({
+    initial: "a",
+    states: {
+      a: { on: { GO: { target: "#settings.advanced" } } },
+      b: {
+        id: "settings",
+        initial: "basic",
+        states: { basic: {}, advanced: {} },
+      },
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, { b: "advanced" });
+});
+
+Deno.test("Targets: .child targets a descendant without exiting the source", () => {
+  const log: string[] = [];
+
+  const machine = createMachine({
+    initial: "form",
+    states: {
+      form: {
+        initial: "clean",
+        entry: () => log.push("enter:form"),
+        exit: () => log.push("exit:form"),
+        on: { EDIT: { target: ".dirty" } },
+        states: {
+          clean: { exit: () => log.push("exit:clean") },
+          dirty: { entry: () => log.push("enter:dirty") },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine).start();
+  log.length = 0;
+  actor.send({ type: "EDIT" });
+
+  assertEquals(actor.getSnapshot().value, { form: "dirty" });
+  assertEquals(log, ["exit:clean", "enter:dirty"]);
+});
+
+Deno.test("Targets: unresolvable targets fail at createMachine time", () => {
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: { on: { GO: { target: "#missing" } } },
+        },
+      }),
+    Error,
+    'Target "#missing" in state "a" could not be resolved',
+  );
+
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: { on: { GO: { target: ".nope" } } },
+        },
+      }),
+    Error,
+    'Target ".nope" in state "a" could not be resolved',
+  );
+});
+
+Deno.test("Targets: duplicate state IDs are rejected", () => {
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: { id: "same" },
+          b: { id: "same" },
+        },
+      }),
+    Error,
+    'Duplicate state ID "same"',
+  );
+});
+
+const createPlayerMachine = (log: string[]) =>
+  createMachine({
+    id: "player",
+    initial: "off",
+    states: {
+      off: {
+        exit: () => log.push("exit off"),
+        on: {
+          START_MUTED: {
+            target: ["#player.on.video.paused", "#player.on.audio.muted"],
+          },
+          RESUME: {
+            target: ["#player.on.video.hist", "#player.on.audio.hist"],
+          },
+        },
+      },
+      on: {
+        type: "parallel",
+        entry: () => log.push("entry on"),
+        on: { TURN_OFF: { target: "#player.off" } },
+        states: {
+          video: {
+            initial: "playing",
+            states: {
+              playing: { entry: () => log.push("entry playing") },
+              paused: { entry: () => log.push("entry paused") },
+              hist: { type: "history" },
+            },
+          },
+          audio: {
+            initial: "loud",
+            states: {
+              loud: { entry: () => log.push("entry loud") },
+              muted: { entry: () => log.push("entry muted") },
+              hist: { type: "history" },
+            },
+          },
+        },
+      },
+    },
+  });
+
+Deno.test("Targets: multiple targets enter several parallel regions at once", () => {
+  const log: string[] = [];
+  const actor = createActor(createPlayerMachine(log));
+  actor.start();
+  actor.send({ type: "START_MUTED" });
+
+  assertEquals(actor.getSnapshot().value, {
+    on: { video: "paused", audio: "muted" },
+  });
+  // A single exit set and entry set; shared ancestors are entered once
+  assertEquals(log, [
+    "exit off",
+    "entry on",
+    "entry paused",
+    "entry muted",
+  ]);
+});
+
+Deno.test("Targets: multiple targets record and restore history per region", () => {
+  const log: string[] = [];
+  const actor = createActor(createPlayerMachine(log));
+  actor.start();
+  actor.send({ type: "START_MUTED" });
+  actor.send({ type: "TURN_OFF" });
+  assertEquals(actor.getSnapshot().value, "off");
+
+  actor.send({ type: "RESUME" });
+  assertEquals(actor.getSnapshot().value, {
+    on: { video: "paused", audio: "muted" },
+  });
+});
+
+Deno.test("Targets: conflicting multiple targets fail at createMachine time", () => {
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: { on: { GO: { target: ["b", "c"] } } },
+          b: {},
+          c: {},
+        },
+      }),
+    Error,
+    'Targets "b" and "c" in state "a" conflict',
+  );
+
+  assertThrows(
+    () =>
+      createMachine({
+        initial: "a",
+        states: {
+          a: {
+            type: "parallel",
+            on: { GO: { target: [".left", ".left.inner"] } },
+            states: {
+              left: { initial: "inner", states: { inner: {} } },
+              right: {},
+            },
+          },
+        },
+      }),
+    Error,
+    "conflict",
+  );
+});
@@ -75,3 +75,46 @@ Deno.test("waitFor: Works with async invocation", async () => {
   const state = await waitFor(actor, (s) => s.matches("success"));
   assertEquals(state.value, "success");
 });
+
+Deno.test("waitFor: Rejects when the actor is stopped", async () => {
+  const machine = createMachine({
+    initial: "a",
+    states: { a: { on: { NEXT: "b" } }, b: {} },
+  });
+  const actor = createActor(machine).start();
+
+  const waiting = waitFor(actor, (s) => s.matches("b"), { timeout: 1000 });
+  actor.stop();
+
+  await assertRejects(() => waiting, Error, "stopped");
+});
+
+Deno.test("waitFor: Rejects with the actor's error", async () => {
+  const machine = createMachine({
+    initial: "a",
+    states: {
+      a: {
+        on: {
+          FAIL: {
+            actions: () => {
+              throw new Error("boom");
+            },
+          },
+        },
+      },
+      b: {},
+    },
+  });
+  const actor = createActor(machine).start();
+
+  const originalError = console.error;
+  console.error = () => {};
+  try {
+    const waiting = waitFor(actor, (s) => s.matches("b"), { timeout: 1000 });
+    actor.send({ type: "FAIL" });
+
+    await assertRejects(() => waiting, Error, "boom");
+  } finally {
+    console.error = originalError;
+  }
+});
@@ -0,0 +1,133 @@
+import { assertEquals } from "@std/assert";
+import { createActor, createMachine } from "../src/mod.ts";
+import { matchesEventDescriptor } from "../src/core/transition.ts";
+
+Deno.test("Wildcard: descriptor matching", () => {
+  assertEquals(matchesEventDescriptor("mouse.click", "mouse.click"), true);
+  assertEquals(matchesEventDescriptor("mouse.*", "mouse.click"), true);
+  assertEquals(matchesEventDescriptor("mouse.*", "mouse.move.x"), true);
+  assertEquals(matchesEventDescriptor("mouse.*", "mouse"), true);
+  assertEquals(matchesEventDescriptor("mouse.*", "mousemove"), false);
+  assertEquals(matchesEventDescriptor("*", "anything"), true);
+  // Internal events are never caught by wildcards
+  assertEquals(matchesEventDescriptor("*", "$$always"), false);
+});
+
+Deno.test("Wildcard: partial descriptor handles a namespace of events", () => {
+  const received: string[] = [];
+
+  const machine = createMachine({
+    initial: "active",
+    states: {
+      active: {
+        on: {
+          "ui.*": { actions: ({ event }) => received.push(event.type) },
+        },
+      },
+    },
+  });
+
+  const actor = createActor(machine);
+  actor.start();
+  actor.send({ type: "ui.click" });
+  actor.send({ type: "ui.hover" });
+  actor.send({ type: "net.request" });
+
+  assertEquals(received, ["ui.click", "ui.hover"]);
+});
+
+Deno.test("Wildcard: exact matches take precedence over descriptors", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          "*": { target: "any" },
+          "net.*": { target: "network" },
+          "net.error": { target: "error" },
+        },
+      },
+      any: {},
+      network: {},
+      error: {},
+    },
+  });
+
+  const exact = createActor(machine).start();
+  exact.send({ type: "net.error" });
+  assertEquals(exact.getSnapshot().value, "error");
+
+  const partial = createActor(machine).start();
+  partial.send({ type: "net.timeout" });
+  assertEquals(partial.getSnapshot().value, "network");
+
+  const catchAll = createActor(machine).start();
+  catchAll.send({ type: "RESET" });
+  assertEquals(catchAll.getSnapshot().value, "any");
+});
+
+Deno.test("Wildcard: falls back to a descriptor when the exact guard fails", () => {
+  const machine = createMachine({
+    initial: "idle",
+    context: { allowed: false },
+    states: {
+      idle: {
+        on: {
+          "net.error": {
+            target: "handled",
+            guard: ({ context }) => context.allowed,
+          },
+          "net.*": { target: "fallback" },
+        },
+      },
+      handled: {},
+      fallback: {},
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "net.error" });
+
+  assertEquals(actor.getSnapshot().value, "fallback");
+});
+
+Deno.test("Wildcard: catch-all does not swallow always transitions", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: {
+          GO: { target: "checking" },
+          "*": { target: "unexpected" },
+        },
+      },
+      checking: {
+        always: { target: "done" },
+      },
+      unexpected: {},
+      done: {},
+    },
+  });
+
+  const actor = createActor(machine).start();
+  actor.send({ type: "GO" });
+
+  assertEquals(actor.getSnapshot().value, "done");
+});
+
+Deno.test("Wildcard: can() understands descriptors", () => {
+  const machine = createMachine({
+    initial: "idle",
+    states: {
+      idle: {
+        on: { "done.invoke.*": { target: "done" } },
+      },
+      done: {},
+    },
+  });
+
+  const snapshot = createActor(machine).start().getSnapshot();
+
+  assertEquals(snapshot.can({ type: "done.invoke.fetcher" }), true);
+  assertEquals(snapshot.can({ type: "error.invoke.fetcher" }), false);
+});